@@ -3,12 +3,24 @@ import {
   PlayerEvent,
   PlayerManagerEvent,
   EventRouter,
+  WorldLoopEvent,
+  type Player,
   // type DefaultPlayerEntity,
 } from "hytopia";
 
-import { loadConfig } from "./src/core/config";
+import { isEnabled, loadConfig } from "./src/core/config";
 import { gameEvents } from "./src/core/events";
-import { createConsoleTelemetry, bindTelemetry } from "./src/systems/telemetry";
+import {
+  bindTelemetry,
+  createConsoleTelemetry,
+  createFanoutTelemetry,
+  createFileTelemetry,
+  createHttpTelemetry,
+  withSampling,
+  withScrubbedPlayerIds,
+  type TelemetryClient,
+} from "./src/systems/telemetry";
+import { createJsonFileStore, createSaveService, INITIAL_RATING } from "./src/systems/save";
 
 // NOTE: v0 uses the engine's default player spawn.
 
@@ -21,257 +33,926 @@ import {
 } from "./src/gameplay/ui";
 
 import {
-  buildBoard3D,
-  spawnPiecesFromFen,
-  wire3DSelection,
+  animatePieces,
+  setBoardPieceSet,
+  syncPiecesToFen,
 } from "./src/gameplay/chess3d/board3d";
+import { pointCameraAtBoard, releaseBoardCamera } from "./src/gameplay/chess3d/board-camera";
+import { showBoardHighlights } from "./src/gameplay/chess3d/highlights";
+import { dropStaleSelections, wire3DSelection } from "./src/gameplay/chess3d/selection";
 
 import {
-  createRoom,
   assignSeat,
   setLobbySelection,
   canStart,
   startGame,
   applyMove,
   buildUiStateFor,
+  backToLobby,
+  setupFen,
+  startingTurn,
+  validateStartFen,
+  resign,
+  makeOffer,
+  answerOffer,
+  offerAwaitingAi,
+  beginAiTurn,
+  applyAiMove,
+  markAway,
+  markBack,
+  ABORTED_REASON,
 } from "./src/gameplay/chess/game";
-
-import type { Difficulty, Mode, PlayerColor } from "./src/gameplay/chess/types";
+import { createAiPool, type AiTask } from "./src/gameplay/chess/ai-pool";
+import { exportPgn, parsePgn } from "./src/gameplay/chess/pgn";
+import { archiveEntry, profileSummary, PROFILE_RECENT_GAMES } from "./src/gameplay/chess/archive";
+import { restoreRoom, snapshotRoom, SNAPSHOT_INTERVAL_MS } from "./src/gameplay/chess/snapshot";
+import { createFileSnapshotStore } from "./src/gameplay/chess/snapshot-store";
+import { createMatchmaker, createMatchRoom, MATCHMAKING_INTERVAL_MS, type Pairing } from "./src/gameplay/chess/matchmaking";
+import { nextExhibitionGameInMs } from "./src/gameplay/chess/exhibition";
+import { createActionRouter, REJECTION_MESSAGES } from "./src/gameplay/chess/action-router";
+import {
+  createRoomManager,
+  spectatorCount,
+  syncSeatColors,
+  TABLE_GC_INTERVAL_MS,
+  type ChessTable,
+} from "./src/gameplay/chess/room-manager";
+
+import type { OfferKind, PlayerColor, ProfileSummary } from "./src/gameplay/chess/types";
+
+// ui.action -> negotiation step
+type OfferAction =
+  | "game.offerDraw"
+  | "game.acceptDraw"
+  | "game.declineDraw"
+  | "game.requestTakeback"
+  | "game.acceptTakeback"
+  | "game.declineTakeback";
+type OfferStep = { kind: OfferKind; answer?: boolean };
+
+const OFFER_ACTIONS: Record<OfferAction, OfferStep> = {
+  "game.offerDraw": { kind: "draw" },
+  "game.acceptDraw": { kind: "draw", answer: true },
+  "game.declineDraw": { kind: "draw", answer: false },
+  "game.requestTakeback": { kind: "takeback" },
+  "game.acceptTakeback": { kind: "takeback", answer: true },
+  "game.declineTakeback": { kind: "takeback", answer: false },
+};
 
 /**
  * HYTOPIA Chess (v0)
  *
- * - Solo (you are White) vs AI with 3 difficulty levels
- * - Duo (2 players) with full rule enforcement
+ * - Solo vs AI with 10 strength levels; play White, Black or a random color. The AI thinks on worker threads
+ * - Duo (2 players) with full rule enforcement; a disconnected player's seat is held for a minute so they can rejoin
+ * - Matchmaking queue: pairs players by rating (window widens while waiting) and shared time control
+ * - Exhibition: computer vs computer at chosen levels, paced for spectators, restarting after each game
+ * - Optional chess clocks (bullet/blitz/rapid/classical) with flag-fall
+ * - Many concurrent tables, each with its own 3D board
+ * - Spectators can watch any table with a live move list
+ * - PGN export from the end screen, PGN import in the lobby
+ * - Custom starting positions (FEN); the first seat plays the side to move
+ * - Resignation, draw offers and takeback requests
+ * - Saved profiles: Elo for player-vs-player games, records per computer level, a game archive
+ * - Games in progress are snapshotted and picked up again after a server restart
  * - End screen on checkmate/draw, rematch
  */
 startServer((world) => {
   const config = loadConfig({
-    features: { flags: { "telemetry.enabled": true } },
+    features: { flags: { "telemetry.enabled": true, "save.enabled": true } },
     debug: { logLevel: "info", showDebugOverlay: false, logEventHandlerErrors: false },
     tuning: { camera: { preset: "topDown" } } as any,
   });
 
-  const telemetryClient = createConsoleTelemetry({ prefix: "hytopia-chess" });
+  // Events go to a local NDJSON file, and to a collector when CHESS_TELEMETRY_URL is set; the console
+  // copy is for debugging. Player ids are hashed before they reach any sink.
+  const sinks: TelemetryClient[] = [createFileTelemetry()];
+  if (process.env.CHESS_TELEMETRY_URL) sinks.push(createHttpTelemetry({ url: process.env.CHESS_TELEMETRY_URL }));
+  if (config.debug.logLevel === "debug") sinks.push(createConsoleTelemetry({ prefix: "hytopia-chess" }));
+  const telemetryClient = withSampling(withScrubbedPlayerIds(createFanoutTelemetry(sinks)), {
+    rates: { "player.movement.mode.changed": 0.1 },
+  });
   const telemetry = bindTelemetry({ config, client: telemetryClient, sessionId: "dev" });
   gameEvents.emitGame("game.booted", { timestamp: Date.now() });
 
-  const room = createRoom("main");
+  // Profiles and the game archive; off unless "save.enabled".
+  const saves = isEnabled(config, "save.enabled") ? createSaveService({ store: createJsonFileStore() }) : undefined;
+  const profiles = new Map<string, ProfileSummary>(); // playerId -> lobby view of their saved record
+  const archivedGames = new Map<string, number>(); // roomId -> endedAt of the last game saved
+  // Snapshots of live games, so a restart does not lose them; also "save.enabled".
+  const snapshots = isEnabled(config, "save.enabled") ? createFileSnapshotStore() : undefined;
+  const snapshotted = new Set<string>(); // roomIds with a snapshot on disk
 
-  // 3D board + pieces
-  // Spawn the board near world origin so it’s easy to find from default spawns.
-  // Center roughly around (0, 1, 0).
-  const board3d = buildBoard3D({ world, origin: { x: -4, y: 1, z: -4 } });
-  spawnPiecesFromFen({ world, board: board3d, fen: room.chess.fen() });
+  const matchmaker = createMatchmaker();
+  const onlinePlayers = new Map<string, Player>();
+  const joinedAt = new Map<string, number>(); // playerId -> when they joined the world
+
+  // AI searches run off the world tick. At most one move search per table is in flight.
+  const aiPool = createAiPool();
+  const aiTasks = new Map<string, { requestId: number; task: AiTask }>(); // roomId -> search
+  // Exhibition moves found before their pacing delay is up wait here for the world tick.
+  const heldMoves = new Map<string, { requestId: number; uci: string | null; dueAt: number; thinkMs: number }>(); // roomId -> move
+
+  // Board camera each player currently has ("roomId:color"); absent means their own camera.
+  const cameraViews = new Map<string, string>();
 
-  const players = new Map<string, any>(); // Player
   // (no custom player entity spawn for v0)
-  const colors = new Map<string, PlayerColor>();
+  const rooms = createRoomManager({
+    world,
+    onTableCreated: (table) => {
+      const { room, board } = table;
 
-  const canPlayerMoveFrom = (playerId: string, square: string): boolean => {
-    if (room.status !== "playing") return false;
-    const turn = room.chess.turn();
-    const seat = room.seats[turn];
-    if (!seat || seat.playerId !== playerId) return false;
+      const canPlayerMoveFrom = (playerId: string, square: string): boolean => {
+        if (room.status !== "playing") return false;
+        const turn = room.chess.turn();
+        const seat = room.seats[turn];
+        if (!seat || seat.playerId !== playerId) return false;
 
-    const piece = room.chess.get(square as any);
-    if (!piece) return false;
-    return piece.color === turn;
-  };
+        const piece = room.chess.get(square as any);
+        if (!piece) return false;
+        return piece.color === turn;
+      };
 
-  wire3DSelection({
-    world,
-    board: board3d,
-    getFen: () => room.chess.fen(),
-    canPlayerMoveFrom,
-    tryMove: (playerId, uci) => applyMove(room, playerId, uci),
-    onAnyMoveApplied: () => {
-      broadcastState();
+      wire3DSelection({
+        world,
+        board,
+        getFen: () => room.chess.fen(),
+        isSpectator: (playerId) => !table.colors.has(playerId),
+        canPlayerMoveFrom,
+        tryMove: (playerId, uci) => applyMove(room, playerId, uci),
+        askPromotion: (playerId, uci) => {
+          const player = table.players.get(playerId);
+          if (player) sendUi(player, { type: "ui.promotion", payload: { uci } });
+        },
+        onAnyMoveApplied: () => {
+          if (room.status === "ended") announceEnd(table);
+          broadcastState(table);
+        },
+      });
     },
   });
 
-  function broadcastState() {
-    for (const [playerId, player] of players.entries()) {
-      const color = colors.get(playerId) ?? "w";
-      sendUi(player, { type: "ui.state", payload: buildUiStateFor(room, color) });
+  // The main table always exists so there is a board at spawn.
+  rooms.create();
+
+  // Carry on the games that were in progress when the server stopped. Each goes to a fresh table;
+  // its players' seats are held for the reconnect grace period.
+  for (const snapshot of snapshots?.loadAll() ?? []) {
+    snapshots?.remove(snapshot.roomId);
+    if (snapshot.status !== "playing") continue;
+    const restored = restoreRoom(snapshot, snapshot.roomId);
+    if (!restored.ok) {
+      console.warn(`[snapshot] dropping ${snapshot.roomId}: ${restored.reason}`);
+      continue;
+    }
+    const table = rooms.create((roomId) => Object.assign(restored.room, { id: roomId }));
+    if (!table) break;
+    broadcastState(table);
+  }
+
+  /**
+   * Keep the table's AI search in step with the game: drop a search the game has moved past
+   * (reset, rematch, takeback, end) and start one when it is the computer's turn.
+   */
+  function driveAi(table: ChessTable) {
+    const { room } = table;
+    const running = aiTasks.get(room.id);
+    if (running && running.requestId !== room.aiRequest?.id) {
+      running.task.cancel();
+      aiTasks.delete(room.id);
+    }
+
+    const request = beginAiTurn(room);
+    if (!request) return;
+
+    const askedAt = Date.now();
+    const task = aiPool.run({ kind: "move", fen: request.fen, color: request.color, difficulty: request.difficulty });
+    aiTasks.set(room.id, { requestId: request.id, task });
+    void task.result.then((result) => {
+      if (aiTasks.get(room.id)?.task === task) aiTasks.delete(room.id);
+      if (result?.kind !== "move") return;
+
+      const thinkMs = Date.now() - askedAt;
+      if (request.notBefore !== undefined && Date.now() < request.notBefore) {
+        heldMoves.set(room.id, { requestId: request.id, uci: result.uci, dueAt: request.notBefore, thinkMs });
+        return;
+      }
+      playAiMove(table, request.id, result.uci, thinkMs);
+    });
+  }
+
+  function playAiMove(table: ChessTable, requestId: number, uci: string | null, thinkMs?: number) {
+    const { room } = table;
+    // Rejected when the room was reset, rematched or changed while the AI was thinking.
+    const res = applyAiMove(room, requestId, uci, Date.now(), thinkMs);
+    if (!res.ok) return;
+
+    syncPiecesToFen({ world, board: table.board, fen: room.chess.fen(), move: room.lastMove, animate: true });
+    if (room.status === "ended") {
+      announceEnd(table);
+      broadcastLobbies();
+    }
+    broadcastState(table);
+  }
+
+  function startTableGame(table: ChessTable) {
+    // Anyone sitting down to play stops looking for a match.
+    for (const playerId of table.colors.keys()) matchmaker.cancel(playerId);
+    startGame(table.room);
+    syncSeatColors(table);
+    syncPiecesToFen({ world, board: table.board, fen: table.room.chess.fen() });
+  }
+
+  /**
+   * Exhibition pacing runs on the world tick: play held moves once they are due and start
+   * the next game when the end screen has been up long enough. A finished exhibition only
+   * starts over while someone is at the table, or on the main table while anyone is online.
+   */
+  function tickExhibitions() {
+    const now = Date.now();
+    for (const [roomId, held] of heldMoves) {
+      if (now < held.dueAt) continue;
+      heldMoves.delete(roomId);
+      const table = rooms.get(roomId);
+      if (table) playAiMove(table, held.requestId, held.uci, held.thinkMs);
+    }
+
+    const anyoneOnline = rooms.list().some((t) => t.players.size > 0);
+    for (const table of rooms.list()) {
+      const wait = nextExhibitionGameInMs(table.room, now);
+      if (wait === undefined || wait > 0) continue;
+      if (table.players.size === 0 && !(table.slot === 0 && anyoneOnline)) continue;
+      startTableGame(table);
+      broadcastState(table);
+      broadcastLobbies();
+    }
+  }
+
+  /** Ask the computer about a draw offered to it and report back once it has decided. */
+  function answerDrawForAi(table: ChessTable, player: Player) {
+    const { room } = table;
+    const offer = offerAwaitingAi(room);
+    if (!offer || offer.kind !== "draw") return;
+
+    const fen = room.chess.fen();
+    const ai = offer.from === "w" ? "b" : "w";
+    const task = aiPool.run({ kind: "draw", fen, color: ai, difficulty: room.selection.difficulty });
+    void task.result.then((result) => {
+      // The offer may have lapsed, or the game moved on, while the AI was thinking.
+      if (result?.kind !== "draw" || offerAwaitingAi(room) !== offer) return;
+      const res = answerOffer(room, "AI", "draw", result.accept);
+      if (!res.ok) return;
+
+      toast(player, `Draw offer ${result.accept ? "accepted" : "declined"}`, result.accept ? "success" : "info");
+      if (room.status === "ended") {
+        announceEnd(table);
+        broadcastLobbies();
+      }
+      broadcastState(table);
+    });
+  }
+
+  /** Point each player's camera at the board from their side while a game is on, and release it after. */
+  function syncCameras(table: ChessTable) {
+    const { room } = table;
+    for (const [playerId, player] of table.players.entries()) {
+      const color = table.colors.get(playerId) ?? "w";
+      const view = room.status === "lobby" ? undefined : `${room.id}:${color}`;
+      if (cameraViews.get(playerId) === view) continue;
+
+      if (view) {
+        pointCameraAtBoard({ player, board: table.board, color });
+        cameraViews.set(playerId, view);
+      } else {
+        releaseBoardCamera({ world, player });
+        cameraViews.delete(playerId);
+      }
+    }
+  }
+
+  /** Refresh a player's cached lobby profile from the save store. */
+  async function loadProfile(playerId: string, name?: string) {
+    if (!saves) return;
+    const [profile, recent] = await Promise.all([
+      saves.profile(playerId, name),
+      saves.recentGames(playerId, PROFILE_RECENT_GAMES),
+    ]);
+    profiles.set(playerId, profileSummary(profile, recent));
+  }
+
+  /** Save a table's game once it has finished, then refresh the profiles of whoever played it. */
+  function archiveIfFinished(table: ChessTable) {
+    const { room } = table;
+    if (!saves || room.endedAt === undefined || archivedGames.get(room.id) === room.endedAt) return;
+    archivedGames.set(room.id, room.endedAt);
+
+    const game = archiveEntry(room);
+    if (!game) return;
+    void saves
+      .recordGame(game)
+      .then((updated) => Promise.all(updated.map((p) => loadProfile(p.playerId, p.name))))
+      .then(() => {
+        const current = rooms.get(table.room.id);
+        if (current) broadcastState(current);
+      })
+      .catch((err) => console.warn("[save] could not record game", err));
+  }
+
+  /** Keep a live game's snapshot on disk current; drop it once the game is over. */
+  function snapshotTable(table: ChessTable) {
+    const { room } = table;
+    if (!snapshots) return;
+    if (room.status === "playing") {
+      snapshots.save(snapshotRoom(room));
+      snapshotted.add(room.id);
+    } else if (snapshotted.delete(room.id)) {
+      snapshots.remove(room.id);
+    }
+  }
+
+  /** Last move and check markers follow the game; selections on an outdated position are dropped. */
+  function syncHighlights(table: ChessTable) {
+    const { room, board } = table;
+    const fen = room.chess.fen();
+    dropStaleSelections(board, fen, room.status === "playing");
+    showBoardHighlights({ world, board, fen, lastMove: room.lastMove, inGame: room.status !== "lobby" });
+  }
+
+  function broadcastState(table: ChessTable) {
+    const { room } = table;
+    // Every state change ends up here, so this is where the AI picks up its turn.
+    driveAi(table);
+    syncCameras(table);
+    syncHighlights(table);
+    archiveIfFinished(table);
+    snapshotTable(table);
+
+    const view = { tables: rooms.summaries(), spectators: spectatorCount(table) };
+    for (const [playerId, player] of table.players.entries()) {
+      const color = table.colors.get(playerId);
+      const payload = buildUiStateFor(room, color, {
+        ...view,
+        profile: profiles.get(playerId),
+        queue: matchmaker.status(playerId),
+      });
+      sendUi(player, { type: "ui.state", payload });
 
       if (room.status === "playing") {
         const turn = room.chess.turn();
         const status = room.chess.isCheck() ? "CHECK" : "";
-        setHudText(player, "topLeft", `Chess (${room.selection.mode})`);
-        setHudText(player, "bottomRight", `You: ${color === "w" ? "White" : "Black"}\nTurn: ${turn === "w" ? "White" : "Black"} ${status}`);
+        const you = color ? `You: ${color === "w" ? "White" : "Black"}` : "Spectating";
+        setHudText(player, "topLeft", `Chess (${room.selection.mode}) · ${room.id}`);
+        setHudText(player, "bottomRight", `${you}\nTurn: ${turn === "w" ? "White" : "Black"} ${status}`);
       }
     }
   }
 
-  function resetToLobby() {
-    room.status = "lobby";
-    room.winner = undefined;
-    room.endReason = undefined;
-    room.lastMove = undefined;
-    room.chess.reset();
-    // keep selection but clear seats for duo; for solo keep white seat
-    room.seats = {};
-    colors.clear();
-
-    spawnPiecesFromFen({ world, board: board3d, fen: room.chess.fen() });
+  /** Table lists changed: refresh everyone sitting at a lobby. */
+  function broadcastLobbies() {
+    for (const table of rooms.list()) {
+      if (table.room.status === "lobby") broadcastState(table);
+    }
   }
 
-  const globalEvents = EventRouter.globalInstance;
+  function announceEnd(table: ChessTable) {
+    const { room } = table;
+    const winner = room.winner;
+    let msgText = winner ? `${winner === "w" ? "White" : "Black"} wins by ${room.endReason}` : `Draw (${room.endReason})`;
+    if (!winner && room.endReason === ABORTED_REASON) msgText = "Game aborted";
+    for (const p of table.players.values()) toast(p, msgText, winner ? "success" : "info", 4000);
+  }
 
-  globalEvents.on(PlayerManagerEvent.PLAYER_CONNECTED, ({ player }) => {
-    player.on(PlayerEvent.JOINED_WORLD, () => {
-      const playerId = String(player.id);
-      players.set(playerId, player);
+  /** Re-seat the table's seated players based on the current selection. Spectators stay spectators. */
+  function reseat(table: ChessTable) {
+    const seated = [...table.colors.keys()];
+    table.room.seats = {};
+    table.colors.clear();
+    for (const pid of seated) {
+      const seat = assignSeat(table.room, pid, table.players.get(pid)?.username);
+      if (seat.ok && seat.color) table.colors.set(pid, seat.color);
+    }
+  }
 
-      loadOverlayUi(player);
+  /** Drop everything kept per room id once its table is gone; table ids are never reused. */
+  function forgetRoom(roomId: string) {
+    archivedGames.delete(roomId);
+    heldMoves.delete(roomId);
+    aiTasks.get(roomId)?.task.cancel();
+    aiTasks.delete(roomId);
+    if (snapshotted.delete(roomId)) snapshots?.remove(roomId);
+  }
 
-      toast(player, "Welcome to HYTOPIA Chess", "info");
+  setInterval(() => {
+    const removed = rooms.collectGarbage();
+    for (const roomId of removed) forgetRoom(roomId);
+    if (removed.length) broadcastLobbies();
+  }, TABLE_GC_INTERVAL_MS);
 
-      // Seat assignment on join (lobby only)
-      if (room.status === "lobby") {
-        const seat = assignSeat(room, playerId);
-        if (seat.ok && seat.color) {
-          colors.set(playerId, seat.color);
-          toast(player, `Seated as ${seat.color === "w" ? "White" : "Black"}`, "success");
-        } else {
-          toast(player, seat.reason ?? "Room full", "warning");
-        }
+  /** Put both sides of a pairing that could not be played back in the queue, waiting times kept. */
+  function requeue(pairing: Pairing) {
+    for (const entry of [pairing.white, pairing.black]) {
+      if (onlinePlayers.has(entry.playerId)) matchmaker.enqueue(entry);
+    }
+  }
+
+  /** Seat every pair the queue can make at a fresh table and start their game. */
+  function runMatchmaking() {
+    const queued = new Set<ChessTable>();
+    for (const pairing of matchmaker.pair()) {
+      const white = onlinePlayers.get(pairing.white.playerId);
+      const black = onlinePlayers.get(pairing.black.playerId);
+      if (!white || !black) {
+        requeue(pairing);
+        continue;
       }
 
-      bindUiInbound({
-        world,
-        player,
-        config,
-        onMessage: (msg) => {
-          if (msg.type === "ui.ready") {
-            broadcastState();
-            return;
-          }
+      const previous = [rooms.tableOf(pairing.white.playerId), rooms.tableOf(pairing.black.playerId)];
+      const table = rooms.create((roomId) => createMatchRoom(roomId, pairing));
+      if (!table) {
+        // No free table yet; try again on the next round.
+        requeue(pairing);
+        continue;
+      }
 
-          if (msg.type !== "ui.action") return;
+      rooms.join(table, white);
+      rooms.join(table, black);
+      startTableGame(table);
+      for (const [player, color] of [[white, "White"], [black, "Black"]] as const) {
+        toast(player, `Match found: you play ${color} (${table.room.selection.timeControl})`, "success");
+      }
+      broadcastState(table);
+      for (const t of previous) if (t && t !== table) broadcastState(t);
+      broadcastLobbies();
+    }
 
-          if (msg.action === "lobby.set" && room.status === "lobby") {
-            const mode = (msg.payload as any)?.mode as Mode | undefined;
-            const difficulty = (msg.payload as any)?.difficulty as Difficulty | undefined;
-            setLobbySelection(room, { mode, difficulty });
+    // Refresh the queue status (waiting time, rating window) of everyone still waiting.
+    for (const playerId of onlinePlayers.keys()) {
+      const table = matchmaker.has(playerId) ? rooms.tableOf(playerId) : undefined;
+      if (table) queued.add(table);
+    }
+    for (const table of queued) broadcastState(table);
+  }
+
+  setInterval(runMatchmaking, MATCHMAKING_INTERVAL_MS);
 
-            // Re-seat everyone based on new selection
-            room.seats = {};
-            colors.clear();
-            for (const [pid] of players.entries()) {
-              const seat = assignSeat(room, pid);
-              if (seat.ok && seat.color) colors.set(pid, seat.color);
-            }
+  // Moves are snapshotted straight away; this keeps running clocks current between moves.
+  if (snapshots) {
+    setInterval(() => {
+      for (const table of rooms.list()) snapshotTable(table);
+    }, SNAPSHOT_INTERVAL_MS);
+  }
 
-            broadcastState();
+  // NEEDS_VERIFICATION: event name/payload for the world loop tick in the installed SDK version.
+  // Each room's lifecycle runs here too: live games poll their clocks and away seats between moves.
+  let lastTickAt = Date.now();
+  world.on(WorldLoopEvent.TICK_END, () => {
+    tickExhibitions();
+    const now = Date.now();
+    const dt = (now - lastTickAt) / 1000;
+    lastTickAt = now;
+    for (const table of rooms.list()) {
+      const wasPlaying = table.room.status === "playing";
+      table.room.lifecycle.update(dt);
+      if (wasPlaying && table.room.status === "ended") {
+        announceEnd(table);
+        broadcastState(table);
+      }
+      animatePieces(table.board, now);
+    }
+  });
+
+  function resetToLobby(table: ChessTable) {
+    const { room } = table;
+    backToLobby(room);
+    // keep selection; seated players are seated again for it
+    reseat(table);
+
+    syncPiecesToFen({ world, board: table.board, fen: setupFen(room) });
+  }
+
+  /** Seat a player at an open table, opening a new one if every table is busy. */
+  function seatAnywhere(player: Player): { ok: boolean; color?: PlayerColor; reason?: string; table?: ChessTable } {
+    const table = rooms.findOpen() ?? rooms.create();
+    if (!table) return { ok: false, reason: "All tables are busy" };
+    return { ...rooms.join(table, player), table };
+  }
+
+  /**
+   * UI actions. The router checks who may send each one and on which screen before the handler
+   * runs; handlers only do the work.
+   */
+  const actions = createActionRouter<Player, ChessTable>({ emit: (event, payload) => gameEvents.emitGame(event, payload) });
+
+  // Seated players must finish (or leave) their game before switching tables or queueing.
+  const notInGame = ({ playerId, table }: { playerId: string; table?: ChessTable }) =>
+    !(table && table.colors.has(playerId) && table.room.status === "playing");
+
+  // Exhibition tables have no seated players, so anyone at the table may run them.
+  const seatedOrExhibition = ({ playerId, table }: { playerId: string; table: ChessTable }) =>
+    table.colors.has(playerId) || table.room.selection.mode === "exhibition";
+
+  /** Any other way into a table or a game takes the player out of the matchmaking queue. */
+  function leaveQueue(playerId: string, table: ChessTable | undefined) {
+    if (matchmaker.cancel(playerId) && table) broadcastState(table);
+  }
+
+  actions.on("queue.cancel", {
+    access: "anyone",
+    handle: ({ playerId, player, table }) => {
+      if (!matchmaker.cancel(playerId)) return;
+      toast(player, "Left the queue", "info");
+      if (table) broadcastState(table);
+    },
+  });
+
+  actions.on("queue.join", {
+    access: "anyone",
+    guard: notInGame,
+    handle: ({ playerId, player, table }, { timeControls }) => {
+      const rating = profiles.get(playerId)?.rating ?? INITIAL_RATING;
+      matchmaker.enqueue({ playerId, name: player.username, rating, timeControls });
+      toast(player, "Looking for an opponent…", "info");
+      runMatchmaking();
+      if (table && matchmaker.has(playerId)) broadcastState(table);
+    },
+  });
+
+  actions.on("room.create", {
+    access: "anyone",
+    guard: notInGame,
+    handle: ({ playerId, player, table }) => {
+      leaveQueue(playerId, table);
+      const created = rooms.create();
+      if (!created) {
+        toast(player, "All tables are busy", "warning");
+        return;
+      }
+      const res = rooms.join(created, player);
+      if (!res.ok) toast(player, res.reason ?? "Could not join table", "warning");
+      broadcastLobbies();
+    },
+  });
+
+  /** Leave the current table for a seat anywhere else. */
+  function leaveTable(playerId: string, player: Player, table: ChessTable) {
+    leaveQueue(playerId, table);
+    rooms.leave(playerId);
+    const seat = seatAnywhere(player);
+    if (!seat.ok) toast(player, seat.reason ?? "Room full", "warning");
+    broadcastState(table);
+    broadcastLobbies();
+  }
+
+  actions.on("room.leave", {
+    access: "atTable",
+    guard: notInGame,
+    handle: ({ playerId, player, table }) => leaveTable(playerId, player, table),
+  });
+
+  for (const action of ["room.join", "room.watch"] as const) {
+    actions.on(action, {
+      access: "anyone",
+      guard: notInGame,
+      handle: ({ playerId, player, table }, { roomId }) => {
+        leaveQueue(playerId, table);
+        const target = rooms.get(roomId);
+        if (!target) {
+          toast(player, "Table not found", "warning");
+          return;
+        }
+
+        if (action === "room.watch") {
+          rooms.watch(target, player);
+          toast(player, `Watching ${target.room.id}`, "info");
+        } else {
+          const res = rooms.join(target, player);
+          if (!res.ok) {
+            toast(player, res.reason ?? "Table full", "warning");
             return;
           }
+        }
+
+        broadcastState(target);
+        broadcastLobbies();
+      },
+    });
+  }
+
+  // Anyone at the table, spectators included, can take the game record home.
+  actions.on("end.copyPgn", {
+    access: "atTable",
+    handle: ({ player, table }) => {
+      sendUi(player, { type: "ui.pgn", payload: { pgn: exportPgn(table.room) } });
+    },
+  });
+
+  actions.on("exhibition.stop", {
+    access: "atTable",
+    screens: ["playing", "ended"],
+    guard: ({ table }) => table.room.selection.mode === "exhibition",
+    handle: ({ table }) => {
+      heldMoves.delete(table.room.id);
+      resetToLobby(table);
+      broadcastState(table);
+      broadcastLobbies();
+    },
+  });
 
-          if (msg.action === "lobby.start" && room.status === "lobby") {
-            const pid = String(player.id);
-
-            // In duo mode, only allow white to start (keeps simple)
-            const yourColor = colors.get(pid);
-            if (room.selection.mode === "duo" && yourColor !== "w") {
-              toast(player, "Only White can start the match.", "warning");
-              return;
-            }
-
-            if (!canStart(room)) {
-              toast(player, room.selection.mode === "duo" ? "Waiting for opponent" : "Ready when you are", "warning");
-              broadcastState();
-              return;
-            }
-
-            startGame(room);
-            spawnPiecesFromFen({ world, board: board3d, fen: room.chess.fen() });
-            toast(player, "Game start", "success");
-            broadcastState();
+  actions.on("lobby.set", {
+    access: "atTable",
+    authorize: seatedOrExhibition,
+    screens: ["lobby"],
+    handle: ({ playerId, player, table }, payload) => {
+      const { room } = table;
+      const { mode, difficulty, color, whiteLevel, blackLevel, moveDelayMs, timeControl, pieceSet } = payload;
+      const exhibition = { levels: { w: whiteLevel, b: blackLevel }, moveDelayMs };
+
+      // Custom positions are checked here so a bad FEN never reaches chess.js elsewhere.
+      let fen: string | undefined;
+      if (payload.fen !== undefined) {
+        fen = "";
+        if (payload.fen.trim()) {
+          const check = validateStartFen(payload.fen);
+          if (!check.ok) {
+            toast(player, check.reason, "error", 4000);
             return;
           }
+          fen = check.fen;
+        }
+      }
+
+      setLobbySelection(room, { mode, difficulty, color, exhibition, timeControl, pieceSet, fen });
+
+      // Re-seat everyone based on new selection
+      reseat(table);
+      // Leaving exhibition mode: whoever changed it gets a seat back.
+      if (!table.colors.has(playerId)) rooms.join(table, player);
+      setBoardPieceSet({ world, board: table.board, pieceSet: room.selection.pieceSet });
+      syncPiecesToFen({ world, board: table.board, fen: setupFen(room) });
+
+      broadcastLobbies();
+    },
+  });
+
+  actions.on("lobby.importPgn", {
+    access: "seated",
+    screens: ["lobby"],
+    handle: ({ player, table }, { pgn }) => {
+      const { room } = table;
+      if (pgn.trim()) {
+        const parsed = parsePgn(pgn);
+        if (!parsed.ok) {
+          toast(player, parsed.reason, "error", 4000);
+          return;
+        }
+        toast(player, `Imported ${parsed.game.moves.length} moves`, "success");
+      }
+      setLobbySelection(room, { pgn: pgn.trim() });
+      reseat(table);
+      syncPiecesToFen({ world, board: table.board, fen: setupFen(room) });
+      broadcastState(table);
+    },
+  });
+
+  actions.on("lobby.start", {
+    access: "atTable",
+    authorize: seatedOrExhibition,
+    screens: ["lobby"],
+    handle: ({ playerId, player, table }) => {
+      const { room } = table;
+      leaveQueue(playerId, table);
+
+      // In duo mode, only the side to move starts (keeps simple)
+      const yourColor = table.colors.get(playerId);
+      const host = startingTurn(room);
+      if (room.selection.mode === "duo" && yourColor !== host) {
+        toast(player, `Only ${host === "w" ? "White" : "Black"} can start the match.`, "warning");
+        return;
+      }
+
+      if (!canStart(room)) {
+        toast(player, room.selection.mode === "duo" ? "Waiting for opponent" : "Ready when you are", "warning");
+        broadcastState(table);
+        return;
+      }
+
+      startTableGame(table);
+      const you = table.colors.get(playerId);
+      let startText = "Game start";
+      if (room.selection.mode === "solo") startText = `Game start: you play ${you === "b" ? "Black" : "White"}`;
+      if (room.selection.mode === "exhibition") startText = "Exhibition started";
+      toast(player, startText, "success");
+      broadcastState(table);
+      broadcastLobbies();
+    },
+  });
+
+  actions.on("game.move", {
+    access: "seated",
+    screens: ["playing"],
+    handle: ({ playerId, player, table }, { uci }) => {
+      const { room } = table;
+      const res = applyMove(room, playerId, uci);
+      if (!res.ok) {
+        toast(player, res.reason ?? "Illegal move", "warning");
+        return;
+      }
+
+      syncPiecesToFen({ world, board: table.board, fen: room.chess.fen(), move: room.lastMove, animate: true });
+
+      // If game ended, announce
+      if (room.lifecycle.getState() === "ended") announceEnd(table);
+
+      broadcastState(table);
+    },
+  });
 
-          if (msg.action === "game.move" && room.status === "playing") {
-            const pid = String(player.id);
-            const uci = String((msg.payload as any)?.uci || "");
-            if (!uci || uci.length < 4) return;
-
-            const res = applyMove(room, pid, uci);
-            if (!res.ok) {
-              toast(player, res.reason ?? "Illegal move", "warning");
-              return;
-            }
-
-            spawnPiecesFromFen({ world, board: board3d, fen: room.chess.fen() });
-
-            // If game ended, announce
-            if ((room as any).status === "ended") {
-              const winner = room.winner;
-              const msgText = winner
-                ? `${winner === "w" ? "White" : "Black"} wins by ${room.endReason}`
-                : `Draw (${room.endReason})`;
-              for (const p of players.values()) toast(p, msgText, winner ? "success" : "info", 4000);
-            }
-
-            broadcastState();
+  actions.on("game.resign", {
+    access: "seated",
+    screens: ["playing"],
+    handle: ({ playerId, player, table }) => {
+      const res = resign(table.room, playerId);
+      if (!res.ok) {
+        toast(player, res.reason ?? "Cannot resign", "warning");
+        return;
+      }
+      announceEnd(table);
+      broadcastState(table);
+      broadcastLobbies();
+    },
+  });
+
+  for (const [action, { kind, answer }] of Object.entries(OFFER_ACTIONS) as [OfferAction, OfferStep][]) {
+    actions.on(action, {
+      access: "seated",
+      screens: ["playing"],
+      handle: ({ playerId, player, table }) => {
+        const { room } = table;
+        const label = kind === "draw" ? "Draw offer" : "Takeback request";
+        const opponents = [...table.players.entries()]
+          .filter(([id]) => id !== playerId && table.colors.has(id))
+          .map(([, p]) => p);
+
+        if (answer === undefined) {
+          const res = makeOffer(room, playerId, kind);
+          if (!res.ok) {
+            toast(player, res.reason ?? `${label} failed`, "warning");
             return;
           }
-
-          if (msg.action === "end.rematch") {
-            // Keep selection, reseat (solo: player is white)
-            room.status = "lobby";
-            room.chess.reset();
-            room.winner = undefined;
-            room.endReason = undefined;
-            room.lastMove = undefined;
-            room.seats = {};
-            colors.clear();
-
-            for (const [pid] of players.entries()) {
-              const seat = assignSeat(room, pid);
-              if (seat.ok && seat.color) colors.set(pid, seat.color);
-            }
-
-            if (canStart(room)) {
-              startGame(room);
-              spawnPiecesFromFen({ world, board: board3d, fen: room.chess.fen() });
-            }
-
-            broadcastState();
+          if (res.answered) {
+            toast(player, `${label} ${res.accepted ? "accepted" : "declined"}`, res.accepted ? "success" : "info");
+          } else if (offerAwaitingAi(room)) {
+            answerDrawForAi(table, player);
+          } else {
+            for (const p of opponents) toast(p, `${label} from your opponent`, "info", 4000);
+          }
+        } else {
+          const res = answerOffer(room, playerId, kind, answer);
+          if (!res.ok) {
+            toast(player, res.reason ?? `No ${kind} offer to answer`, "warning");
             return;
           }
+          for (const p of opponents) toast(p, `${label} ${answer ? "accepted" : "declined"}`, answer ? "success" : "info");
+        }
+
+        // A takeback changes the position; a draw by agreement ends the game.
+        syncPiecesToFen({ world, board: table.board, fen: room.chess.fen(), animate: true });
+        if (room.lifecycle.getState() === "ended") announceEnd(table);
+        broadcastState(table);
+      },
+    });
+  }
+
+  actions.on("end.rematch", {
+    access: "seated",
+    screens: ["ended"],
+    handle: ({ playerId, table }) => {
+      // Same selection and seats, straight into the next game when it can start.
+      resetToLobby(table);
+      const started = canStart(table.room);
+      if (started) startTableGame(table);
+      gameEvents.emitGame("chess.rematch", { roomId: table.room.id, playerId, started });
+      broadcastState(table);
+    },
+  });
+
+  // A spectator's "back to lobby" means leaving the table they were watching.
+  actions.on("end.backToLobby", {
+    access: "atTable",
+    screens: ["ended"],
+    handle: ({ playerId, player, table }) => {
+      if (!table.colors.has(playerId)) {
+        leaveTable(playerId, player, table);
+        return;
+      }
+      resetToLobby(table);
+      broadcastLobbies();
+    },
+  });
+
+  const globalEvents = EventRouter.globalInstance;
+
+  globalEvents.on(PlayerManagerEvent.PLAYER_CONNECTED, ({ player }) => {
+    player.on(PlayerEvent.JOINED_WORLD, () => {
+      loadOverlayUi(player);
 
-          if (msg.action === "end.backToLobby") {
-            resetToLobby();
-            broadcastState();
+      toast(player, "Welcome to HYTOPIA Chess", "info");
+      onlinePlayers.set(String(player.id), player);
+      joinedAt.set(String(player.id), Date.now());
+
+      void loadProfile(String(player.id), player.username)
+        .then(() => {
+          const table = rooms.tableOf(String(player.id));
+          if (table) broadcastState(table);
+        })
+        .catch((err) => console.warn("[save] could not load profile", err));
+
+      // Back before the grace period ran out: same seat, same game.
+      const held = rooms.findHeldSeat(String(player.id));
+      if (held && rooms.join(held, player).ok) {
+        const color = markBack(held.room, String(player.id));
+        toast(player, `Welcome back: you are ${color === "w" ? "White" : "Black"} at ${held.room.id}`, "success");
+        for (const [playerId, other] of held.players) {
+          if (playerId !== String(player.id)) toast(other, `${player.username} is back`, "info");
+        }
+        broadcastState(held);
+        broadcastLobbies();
+      } else {
+        const seat = seatAnywhere(player);
+        if (seat.ok && seat.color) {
+          toast(player, `Seated as ${seat.color === "w" ? "White" : "Black"} at ${seat.table?.room.id}`, "success");
+        } else {
+          toast(player, seat.reason ?? "Room full", "warning");
+        }
+      }
+
+      bindUiInbound({
+        world,
+        player,
+        config,
+        onMessage: (msg) => {
+          const pid = String(player.id);
+          const table = rooms.tableOf(pid);
+
+          if (msg.type === "ui.ready") {
+            if (table) broadcastState(table);
             return;
           }
+
+          const res = actions.dispatch({ playerId: pid, player, table }, msg);
+          if (res.ok) return;
+          sendUi(player, {
+            type: "ui.error",
+            payload: { code: "action_rejected", message: REJECTION_MESSAGES[res.reason], action: msg.action, reason: res.reason },
+          });
         },
       });
 
-      broadcastState();
+      broadcastLobbies();
     });
 
     player.on(PlayerEvent.LEFT_WORLD, () => {
       const playerId = String(player.id);
-      players.delete(playerId);
-      colors.delete(playerId);
+      const wasSeated = !!rooms.tableOf(playerId)?.colors.has(playerId);
+      const table = rooms.leave(playerId);
+      cameraViews.delete(playerId);
+      onlinePlayers.delete(playerId);
+      matchmaker.cancel(playerId);
+      profiles.delete(playerId);
+      actions.forget(playerId);
 
       // (no custom player entity to despawn)
 
-      // If duo and someone leaves during a game, end and return to lobby.
-      if (room.selection.mode === "duo" && room.status === "playing") {
-        room.status = "ended";
-        room.winner = undefined;
-        room.endReason = "opponent disconnected";
-      }
+      const inGame = wasSeated && table?.room.status === "playing";
+      gameEvents.emitGame("chess.player.disconnected", {
+        playerId,
+        roomId: table?.room.id,
+        seated: wasSeated,
+        inGame,
+        seatHeld: inGame && table?.room.selection.mode === "duo",
+        sessionMs: Date.now() - (joinedAt.get(playerId) ?? Date.now()),
+      });
+      joinedAt.delete(playerId);
+
+      if (table) {
+        const { room } = table;
+
+        // A duo player who drops out mid-game keeps their seat for a while; the game goes on.
+        if (inGame && room.selection.mode === "duo") {
+          markAway(room, playerId);
+          for (const other of table.players.values()) {
+            toast(other, `${player.username} disconnected; waiting for them to return`, "warning", 4000);
+          }
+        }
+
+        // If solo player leaves, reset.
+        if (wasSeated && room.selection.mode === "solo") {
+          resetToLobby(table);
+        }
 
-      // If solo player leaves, reset.
-      if (room.selection.mode === "solo" && players.size === 0) {
-        resetToLobby();
+        broadcastState(table);
       }
 
-      broadcastState();
+      broadcastLobbies();
     });
   });
 
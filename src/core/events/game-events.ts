@@ -8,7 +8,7 @@ import { EventRouter } from "hytopia";
  */
 export type GameEventMap = {
   "game.booted": { timestamp: number };
-  "game.state.changed": { from: string; to: string };
+  "game.state.changed": { from: string; to: string; roomId?: string }; // roomId: per-room machines
   "camera.preset.changed": { preset: "threeQuarter" | "topDown" };
   "player.spawned": { playerId: string };
   "player.movement.mode.changed": { playerId: string; mode: "walk" | "run" | "idle" };
@@ -16,6 +16,53 @@ export type GameEventMap = {
     message: string;
     tone?: "info" | "success" | "warning" | "error";
   };
+  // Outcome of each UI action routed through the action router.
+  "ui.action.handled": { playerId: string; action: string; roomId?: string };
+  "ui.action.rejected": { playerId: string; action: string; roomId?: string; reason: string };
+  // Chess flow. Player ids are "AI" for computer seats; aiLevels has the computer's level per seat.
+  "chess.room.created": { roomId: string; slot: number; mode: string };
+  "chess.seat.assigned": { roomId: string; playerId: string; color: "w" | "b"; mode: string };
+  "chess.game.started": {
+    roomId: string;
+    mode: string;
+    timeControl: string;
+    white?: string;
+    black?: string;
+    aiLevels: { w?: number; b?: number };
+    startPly: number; // above 0 when continuing an imported game
+  };
+  "chess.move.made": {
+    roomId: string;
+    playerId: string;
+    color: "w" | "b";
+    ply: number;
+    san: string;
+    uci: string;
+    spentMs: number; // since the mover got the move
+    aiThinkMs?: number; // the computer's search time
+  };
+  "chess.check": { roomId: string; color: "w" | "b"; ply: number; mate: boolean }; // color: the side in check
+  "chess.game.ended": {
+    roomId: string;
+    mode: string;
+    result: string; // PGN result token
+    winner?: "w" | "b";
+    reason: string;
+    plies: number;
+    durationMs: number;
+    white?: string;
+    black?: string;
+    aiLevels: { w?: number; b?: number };
+  };
+  "chess.rematch": { roomId: string; playerId: string; started: boolean };
+  "chess.player.disconnected": {
+    playerId: string;
+    roomId?: string;
+    seated: boolean;
+    inGame: boolean; // seated at a game in progress: it is held (duo) or abandoned
+    seatHeld: boolean; // the game is waiting for them to return
+    sessionMs: number;
+  };
 };
 
 /**
@@ -1,13 +1,26 @@
-import type { GameConfig } from "../config";
+import { DEFAULT_CONFIG, type GameConfig } from "../config";
 import { gameEvents } from "../events";
-import type { GameState, GameStateId, LogFn, StateContext } from "./types";
-
-type StateRegistry = Record<GameStateId, GameState>;
-
-export interface StateMachine {
-  getState: () => GameStateId;
-  transition: (next: GameStateId) => void;
+import type {
+  GameState,
+  GameStateId,
+  LogFn,
+  StateContext,
+  StateTransition,
+  TransitionRecord,
+  TransitionResult,
+} from "./types";
+
+/** Transitions kept per machine; older ones are dropped first. */
+export const STATE_HISTORY_LIMIT = 50;
+
+export interface StateMachine<S extends string = GameStateId> {
+  getState: () => S;
+  /** Whether `transition(next)` would currently succeed. */
+  canTransition: (next: S) => boolean;
+  transition: (next: S) => TransitionResult;
   update: (dt: number) => void;
+  /** Completed transitions, oldest first. */
+  history: () => readonly TransitionRecord<S>[];
 }
 
 function shouldLog(
@@ -20,18 +33,25 @@ function shouldLog(
   return order[level] <= order[cfg as keyof typeof order];
 }
 
-export function createStateMachine(params: {
-  config: GameConfig;
-  states: GameState[];
-  initial: GameStateId;
+/**
+ * Without `transitions` every state can reach every other one; with them, only the listed
+ * edges are allowed and their guards are consulted on each attempt.
+ */
+export function createStateMachine<S extends string = GameStateId>(params: {
+  config?: GameConfig;
+  states: GameState<S>[];
+  initial: S;
+  transitions?: StateTransition<S>[];
+  /** Room this machine drives, read on each transition (restored rooms are renumbered). */
+  roomId?: () => string;
+  historyLimit?: number;
   log?: LogFn;
   now?: () => number;
-}): StateMachine {
-  const { config } = params;
+}): StateMachine<S> {
+  const config = params.config ?? DEFAULT_CONFIG;
+  const historyLimit = params.historyLimit ?? STATE_HISTORY_LIMIT;
 
-  const registry = Object.fromEntries(
-    params.states.map((s) => [s.id, s])
-  ) as StateRegistry;
+  const registry = new Map<S, GameState<S>>(params.states.map((s) => [s.id, s]));
 
   const log: LogFn =
     params.log ??
@@ -48,10 +68,11 @@ export function createStateMachine(params: {
     now: params.now ?? (() => Date.now()),
   };
 
-  let current: GameStateId = params.initial;
+  let current: S = params.initial;
+  const history: TransitionRecord<S>[] = [];
 
-  const get = (id: GameStateId): GameState => {
-    const s = registry[id];
+  const get = (id: S): GameState<S> => {
+    const s = registry.get(id);
     if (!s) throw new Error(`State not registered: ${id}`);
     return s;
   };
@@ -59,23 +80,41 @@ export function createStateMachine(params: {
   // Initialize by entering initial state
   get(current).enter?.(ctx);
 
-  const transition = (next: GameStateId) => {
-    if (next === current) return;
+  const check = (next: S): TransitionResult => {
+    if (next === current) return { ok: false, reason: "unchanged" };
+    get(next);
+    if (!params.transitions) return { ok: true };
+    const edge = params.transitions.find((t) => t.from === current && t.to === next);
+    if (!edge) return { ok: false, reason: "not_allowed" };
+    if (edge.guard && !edge.guard(ctx)) return { ok: false, reason: "guard_refused" };
+    return { ok: true };
+  };
+
+  const transition = (next: S): TransitionResult => {
     const from = current;
-    const fromState = get(from);
-    const toState = get(next);
+    const result = check(next);
+    if (!result.ok) {
+      if (result.reason !== "unchanged" && shouldLog(config, "warn")) {
+        log("warn", "state transition rejected", { from, to: next, reason: result.reason });
+      }
+      return result;
+    }
 
-    fromState.exit?.(ctx);
+    get(from).exit?.(ctx);
     current = next;
+    history.push({ from, to: next, at: ctx.now() });
+    if (history.length > historyLimit) history.splice(0, history.length - historyLimit);
 
     // Emit the custom template event (HYTOPIA-native EventRouter hub)
-    gameEvents.emitGame("game.state.changed", { from, to: next });
+    const roomId = params.roomId?.();
+    gameEvents.emitGame("game.state.changed", roomId === undefined ? { from, to: next } : { from, to: next, roomId });
 
     if (shouldLog(config, "info")) {
-      log("info", `state transition`, { from, to: next });
+      log("info", `state transition`, { from, to: next, roomId });
     }
 
-    toState.enter?.(ctx);
+    get(next).enter?.(ctx);
+    return result;
   };
 
   const update = (dt: number) => {
@@ -83,5 +122,11 @@ export function createStateMachine(params: {
     s.update?.(ctx, dt);
   };
 
-  return { getState: () => current, transition, update };
+  return {
+    getState: () => current,
+    canTransition: (next) => check(next).ok,
+    transition,
+    update,
+    history: () => history,
+  };
 }
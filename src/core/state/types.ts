@@ -16,9 +16,30 @@ export interface StateContext {
   now: () => number;
 }
 
-export interface GameState {
-  id: GameStateId;
+/** State ids default to the game-wide flow; per-instance machines (e.g. chess rooms) bring their own. */
+export interface GameState<S extends string = GameStateId> {
+  id: S;
   enter?: (ctx: StateContext) => void;
   exit?: (ctx: StateContext) => void;
   update?: (ctx: StateContext, dt: number) => void;
 }
+
+/** An allowed edge. A `guard` returning false refuses the transition for now. */
+export interface StateTransition<S extends string = GameStateId> {
+  from: S;
+  to: S;
+  guard?: (ctx: StateContext) => boolean;
+}
+
+export type TransitionRejection =
+  | "unchanged" // already in the requested state
+  | "not_allowed" // no edge from the current state to the requested one
+  | "guard_refused";
+
+export type TransitionResult = { ok: true } | { ok: false; reason: TransitionRejection };
+
+export interface TransitionRecord<S extends string = GameStateId> {
+  from: S;
+  to: S;
+  at: number;
+}
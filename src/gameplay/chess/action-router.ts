@@ -0,0 +1,147 @@
+import type { GameEventMap } from "../../core/events";
+import type { UiActionName, UiActionPayloads } from "../ui/types";
+import type { ChessRoom } from "./game";
+import type { PlayerColor, RoomStatus } from "./types";
+
+/** Per-player token bucket: a burst of actions, then a steady rate. */
+export const ACTION_RATE_LIMIT = { burst: 12, perSecond: 6 };
+
+export type ActionRejection =
+  | "rate_limited"
+  | "unhandled" // no route registered for the action
+  | "no_table" // the action needs a table and the player is not at one
+  | "not_allowed" // at the table, but not someone who may do this
+  | "wrong_screen" // the room is not in a status the action applies to
+  | "refused" // the route's own guard said no
+  | "failed"; // the route's handler threw
+
+/** What the sender is told for each rejection (sent back as a `ui.error`). */
+export const REJECTION_MESSAGES: Record<ActionRejection, string> = {
+  rate_limited: "Slow down a little",
+  unhandled: "That action is not available",
+  no_table: "Join a table first",
+  not_allowed: "Only the players at this table can do that",
+  wrong_screen: "That is not possible at this point of the game",
+  refused: "That is not allowed right now",
+  failed: "That did not work, please try again",
+};
+
+/** The parts of a table the router looks at; the real table carries much more. */
+export type RoutedTable = { room: ChessRoom; colors: Map<string, PlayerColor> };
+
+export type ActionContext<P, T extends RoutedTable> = { playerId: string; player: P; table?: T };
+export type TableActionContext<P, T extends RoutedTable> = ActionContext<P, T> & { table: T };
+
+/**
+ * How an action is routed. `access` says who may send it: anyone, anyone at a table, or only
+ * seated players (`authorize` can widen "atTable" to a narrower rule). Table actions can also be
+ * limited to room statuses (`screens`) and to a route-specific `guard`.
+ */
+export type ActionRoute<A extends UiActionName, P, T extends RoutedTable> =
+  | {
+      access: "anyone";
+      guard?: (ctx: ActionContext<P, T>) => boolean;
+      handle: (ctx: ActionContext<P, T>, payload: UiActionPayloads[A]) => void;
+    }
+  | {
+      access: "atTable" | "seated";
+      authorize?: (ctx: TableActionContext<P, T>) => boolean;
+      screens?: readonly RoomStatus[];
+      guard?: (ctx: TableActionContext<P, T>) => boolean;
+      handle: (ctx: TableActionContext<P, T>, payload: UiActionPayloads[A]) => void;
+    };
+
+/** An action with its own payload type; any `UiAction` fits. */
+type ActionMessage<A extends UiActionName> = { action: A; payload: UiActionPayloads[A] };
+
+/** One route per action, each typed with that action's payload. */
+type RouteTable<P, T extends RoutedTable> = { [A in UiActionName]?: ActionRoute<A, P, T> };
+
+export interface ActionRouter<P, T extends RoutedTable> {
+  on: <A extends UiActionName>(action: A, route: ActionRoute<A, P, T>) => void;
+  dispatch: <A extends UiActionName>(
+    ctx: ActionContext<P, T>,
+    message: ActionMessage<A>
+  ) => { ok: true } | { ok: false; reason: ActionRejection };
+  /** Drop a player's rate-limit state (e.g. when they leave the world). */
+  forget: (playerId: string) => void;
+}
+
+type Emit = <K extends keyof GameEventMap>(event: K, payload: GameEventMap[K]) => void;
+
+/**
+ * Registered-handler dispatcher for UI actions. It knows nothing about the world: tables are
+ * plain objects and outcomes are reported through `emit`, so routing can be exercised with
+ * hand-built rooms.
+ */
+export function createActionRouter<P, T extends RoutedTable>(
+  params: { emit?: Emit; now?: () => number; rateLimit?: { burst: number; perSecond: number } } = {}
+): ActionRouter<P, T> {
+  const now = params.now ?? (() => Date.now());
+  const limit = params.rateLimit ?? ACTION_RATE_LIMIT;
+  const routes: RouteTable<P, T> = {};
+  const buckets = new Map<string, { tokens: number; at: number }>();
+
+  const takeToken = (playerId: string): boolean => {
+    const t = now();
+    const bucket = buckets.get(playerId) ?? { tokens: limit.burst, at: t };
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + ((t - bucket.at) / 1000) * limit.perSecond);
+    bucket.at = t;
+    buckets.set(playerId, bucket);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  };
+
+  const check = <A extends UiActionName>(ctx: ActionContext<P, T>, route: ActionRoute<A, P, T>): ActionRejection | undefined => {
+    if (route.access === "anyone") return route.guard && !route.guard(ctx) ? "refused" : undefined;
+
+    const { table } = ctx;
+    if (!table) return "no_table";
+    const tableCtx = { ...ctx, table };
+    const allowed = route.authorize
+      ? route.authorize(tableCtx)
+      : route.access === "atTable" || table.colors.has(ctx.playerId);
+    if (!allowed) return "not_allowed";
+    if (route.screens && !route.screens.includes(table.room.status)) return "wrong_screen";
+    if (route.guard && !route.guard(tableCtx)) return "refused";
+    return undefined;
+  };
+
+  const dispatch = <A extends UiActionName>(ctx: ActionContext<P, T>, message: ActionMessage<A>) => {
+    const { action, payload } = message;
+    const roomId = ctx.table?.room.id;
+    const reject = (reason: ActionRejection) => {
+      params.emit?.("ui.action.rejected", { playerId: ctx.playerId, action, roomId, reason });
+      return { ok: false as const, reason };
+    };
+
+    if (!takeToken(ctx.playerId)) return reject("rate_limited");
+    const route: ActionRoute<A, P, T> | undefined = routes[action];
+    if (!route) return reject("unhandled");
+    const rejection = check(ctx, route);
+    if (rejection) return reject(rejection);
+
+    // One bad message must not take down the inbound handler; the sender gets an error instead.
+    try {
+      route.handle(ctx as TableActionContext<P, T>, payload);
+    } catch (err) {
+      console.warn(`[actions] ${action} from ${ctx.playerId} failed`, err);
+      return reject("failed");
+    }
+    params.emit?.("ui.action.handled", { playerId: ctx.playerId, action, roomId });
+    return { ok: true as const };
+  };
+
+  return {
+    on: <A extends UiActionName>(action: A, route: ActionRoute<A, P, T>) => {
+      // Narrowed to this action so the route's payload type is checked against its key.
+      const byAction: { [K in A]?: ActionRoute<K, P, T> } = routes;
+      byAction[action] = route;
+    },
+    dispatch,
+    forget: (playerId) => {
+      buckets.delete(playerId);
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import { availableParallelism } from "node:os";
+import { extname } from "node:path";
+import { Worker } from "node:worker_threads";
+
+import { runAiJob, type AiJob, type AiJobResult } from "./ai";
+
+/** Leave a core for the world tick; a handful of threads is plenty for a few AI tables. */
+export const AI_POOL_SIZE = Math.max(1, Math.min(4, availableParallelism() - 1));
+
+/**
+ * The worker entry beside this module, with this module's own extension: `.ts` when running from
+ * source, `.js`/`.mjs` once built. NEEDS_VERIFICATION: the build must emit `ai-worker` as its own
+ * entry next to the bundle; otherwise the pool falls back to inline search (and says so).
+ */
+function defaultWorkerUrl(): URL {
+  const ext = extname(new URL(import.meta.url).pathname) || ".js";
+  return new URL(`./ai-worker${ext}`, import.meta.url);
+}
+
+export type AiTask = {
+  id: number;
+  /** Resolves with the job's result, or `undefined` if the task was cancelled. */
+  result: Promise<AiJobResult | undefined>;
+  /** Drop the task. A search already running is stopped by recycling its worker. */
+  cancel: () => void;
+};
+
+export interface AiPool {
+  run: (job: AiJob) => AiTask;
+  /** Number of queued plus running tasks. */
+  pending: () => number;
+  shutdown: () => Promise<void>;
+}
+
+type Pending = {
+  id: number;
+  job: AiJob;
+  resolve: (result: AiJobResult | undefined) => void;
+};
+
+type Slot = {
+  worker?: Worker;
+  online?: boolean;
+  busy?: Pending;
+};
+
+/**
+ * Runs AI searches on `node:worker_threads` so they never block the world tick.
+ * If workers cannot be started (e.g. the runtime cannot load the worker file),
+ * jobs still run, inline on the main thread, so games keep going.
+ */
+export function createAiPool(params: { size?: number; workerUrl?: URL } = {}): AiPool {
+  const size = params.size ?? AI_POOL_SIZE;
+  const workerUrl = params.workerUrl ?? defaultWorkerUrl();
+
+  const queue: Pending[] = [];
+  const slots: Slot[] = [];
+  const inlineTasks = new Set<Pending>();
+  let nextId = 1;
+  let inline = false;
+  let closed = false;
+
+  const fallBackInline = (err: unknown) => {
+    console.warn(
+      `[ai-pool] could not start a worker from ${workerUrl.href}; AI searches now run inline and block the world tick`,
+      err ?? ""
+    );
+    inline = true;
+  };
+
+  const runInline = (task: Pending) => {
+    // Still async, so callers see the same ordering (and can still cancel) either way.
+    inlineTasks.add(task);
+    setImmediate(() => {
+      if (!inlineTasks.delete(task)) return;
+      task.resolve(runAiJob(task.job));
+    });
+  };
+
+  const spawn = (slot: Slot) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(workerUrl);
+    } catch (err) {
+      fallBackInline(err);
+      return;
+    }
+    // Idle workers should not keep the process alive on shutdown.
+    worker.unref();
+    slot.online = false;
+
+    worker.on("message", (msg: { ready?: true; id: number; result: AiJobResult }) => {
+      // The worker says hello once its modules have loaded.
+      if (msg.ready) {
+        slot.online = true;
+        return;
+      }
+      const task = slot.busy;
+      if (!task || task.id !== msg.id) return;
+      slot.busy = undefined;
+      task.resolve(msg.result);
+      pump();
+    });
+
+    const onFailure = (err?: unknown) => {
+      if (slot.worker !== worker) return;
+      slot.worker = undefined;
+      const task = slot.busy;
+      slot.busy = undefined;
+      // A worker that never came online won't do better on a retry.
+      if (!slot.online && !inline) {
+        fallBackInline(err);
+      } else if (err) {
+        console.warn("[ai-pool] worker failed", err);
+      }
+      // Finish the job it was running on the main thread rather than stalling that game.
+      if (task) runInline(task);
+      if (!closed && !inline) spawn(slot);
+      pump();
+    };
+    worker.on("error", onFailure);
+    worker.on("exit", () => onFailure());
+
+    slot.worker = worker;
+  };
+
+  const pump = () => {
+    while (queue.length) {
+      if (inline) {
+        runInline(queue.shift()!);
+        continue;
+      }
+      const slot = slots.find((s) => s.worker && !s.busy);
+      if (!slot?.worker) return;
+      const task = queue.shift()!;
+      slot.busy = task;
+      slot.worker.postMessage({ id: task.id, job: task.job });
+    }
+  };
+
+  for (let i = 0; i < size && !inline; i++) {
+    const slot: Slot = {};
+    spawn(slot);
+    slots.push(slot);
+  }
+
+  const cancel = (id: number) => {
+    const queued = queue.findIndex((t) => t.id === id);
+    if (queued >= 0) {
+      queue.splice(queued, 1)[0].resolve(undefined);
+      return;
+    }
+
+    for (const task of inlineTasks) {
+      if (task.id !== id) continue;
+      inlineTasks.delete(task);
+      task.resolve(undefined);
+      return;
+    }
+
+    const slot = slots.find((s) => s.busy?.id === id);
+    if (!slot?.busy) return;
+    // A search can't be interrupted from outside, so replace the worker running it.
+    const task = slot.busy;
+    const worker = slot.worker;
+    slot.busy = undefined;
+    slot.worker = undefined;
+    task.resolve(undefined);
+    void worker?.terminate();
+    if (!closed) spawn(slot);
+    pump();
+  };
+
+  const run = (job: AiJob): AiTask => {
+    const id = nextId++;
+    const result = new Promise<AiJobResult | undefined>((resolve) => {
+      if (closed) {
+        resolve(undefined);
+        return;
+      }
+      queue.push({ id, job, resolve });
+    });
+    pump();
+    return { id, result, cancel: () => cancel(id) };
+  };
+
+  const pending = () => queue.length + inlineTasks.size + slots.filter((s) => s.busy).length;
+
+  const shutdown = async () => {
+    closed = true;
+    for (const task of [...queue.splice(0), ...inlineTasks]) task.resolve(undefined);
+    inlineTasks.clear();
+    const workers: Worker[] = [];
+    for (const slot of slots) {
+      slot.busy?.resolve(undefined);
+      slot.busy = undefined;
+      if (slot.worker) workers.push(slot.worker);
+      slot.worker = undefined;
+    }
+    await Promise.all(workers.map((w) => w.terminate()));
+  };
+
+  return { run, pending, shutdown };
+}
@@ -0,0 +1,9 @@
+import { parentPort } from "node:worker_threads";
+import { runAiJob, type AiJob } from "./ai";
+
+// Worker thread entry for the AI pool: one job in, one result out.
+parentPort?.on("message", (msg: { id: number; job: AiJob }) => {
+  parentPort?.postMessage({ id: msg.id, result: runAiJob(msg.job) });
+});
+
+parentPort?.postMessage({ ready: true });
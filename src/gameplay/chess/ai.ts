@@ -1,81 +1,37 @@
 import { Chess } from "chess.js";
+import { openingBook, pickBookMove } from "./book";
+import { legalMoves, makeMove, moveToUci, parseFen, search, unmakeMove, type Position } from "./engine";
+import { AI_LEVELS, type AiLevelSpec } from "./levels";
 import type { Difficulty, PlayerColor } from "./types";
 
-const PIECE_VALUES: Record<string, number> = {
-  p: 100,
-  n: 320,
-  b: 330,
-  r: 500,
-  q: 900,
-  k: 0,
-};
-
-function evaluate(chess: Chess, forColor: PlayerColor): number {
-  // Simple material + mobility. Positive means good for forColor.
-  const board = chess.board();
-  let score = 0;
-  for (const row of board) {
-    for (const piece of row) {
-      if (!piece) continue;
-      const v = PIECE_VALUES[piece.type] ?? 0;
-      score += piece.color === forColor ? v : -v;
-    }
-  }
-  // mobility heuristic
-  const moves = chess.moves().length;
-  // If it's forColor's turn, reward mobility; otherwise penalize.
-  score += chess.turn() === forColor ? moves : -moves;
-  return score;
-}
+/** The computer takes a draw when its own evaluation is at or below this (centipawns). */
+const DRAW_ACCEPT_SCORE = -50;
 
 function pickRandom<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
 
-function minimax(chess: Chess, depth: number, alpha: number, beta: number, maximizingFor: PlayerColor): { score: number; move?: string } {
-  if (depth === 0 || chess.isGameOver()) {
-    // If game over, bias strongly for checkmate.
-    if (chess.isCheckmate()) {
-      const winner = chess.turn() === "w" ? "b" : "w";
-      return { score: winner === maximizingFor ? 100000 : -100000 };
-    }
-    if (chess.isDraw() || chess.isStalemate() || chess.isThreefoldRepetition() || chess.isInsufficientMaterial()) {
-      return { score: 0 };
-    }
-    return { score: evaluate(chess, maximizingFor) };
-  }
-
-  const moves = chess.moves({ verbose: true });
-  // Small shuffle for variety on equal scores
-  moves.sort(() => Math.random() - 0.5);
-
-  const isMax = chess.turn() === maximizingFor;
-  let bestScore = isMax ? -Infinity : Infinity;
-  let bestMove: string | undefined;
+/**
+ * A deliberately worse move: any other legal move that scores within the level's margin
+ * of the chosen one. Undefined when every alternative is worse than that.
+ */
+function pickInaccuracy(pos: Position, best: number, spec: AiLevelSpec): number | undefined {
+  const moves = legalMoves(pos);
+  if (moves.length < 2) return undefined;
 
+  // Every move, the chosen one included, is scored the same way (shallower, noiseless)
+  // so the comparison is fair; together they share the level's time budget.
+  const limits = { maxDepth: Math.max(1, spec.maxDepth - 1), timeMs: Math.max(5, spec.timeMs / moves.length) };
+  const scores = new Map<number, number>();
   for (const m of moves) {
-    chess.move(m);
-    const { score } = minimax(chess, depth - 1, alpha, beta, maximizingFor);
-    chess.undo();
-
-    if (isMax) {
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = m.from + m.to + (m.promotion ? m.promotion : "");
-      }
-      alpha = Math.max(alpha, bestScore);
-      if (beta <= alpha) break;
-    } else {
-      if (score < bestScore) {
-        bestScore = score;
-        bestMove = m.from + m.to + (m.promotion ? m.promotion : "");
-      }
-      beta = Math.min(beta, bestScore);
-      if (beta <= alpha) break;
-    }
+    if (!makeMove(pos, m)) continue;
+    scores.set(m, -search(pos, limits).score);
+    unmakeMove(pos);
   }
 
-  return { score: bestScore, move: bestMove };
+  const bestScore = scores.get(best) ?? Math.max(...scores.values());
+  const candidates = moves.filter((m) => m !== best && bestScore - (scores.get(m) ?? -Infinity) <= spec.inaccuracyMarginCp);
+  return candidates.length ? pickRandom(candidates) : undefined;
 }
 
 export function chooseAiMove(fen: string, aiColor: PlayerColor, difficulty: Difficulty): string | null {
@@ -83,16 +39,48 @@ export function chooseAiMove(fen: string, aiColor: PlayerColor, difficulty: Diff
   if (chess.isGameOver()) return null;
   if (chess.turn() !== aiColor) return null;
 
-  const depth = difficulty === "easy" ? 1 : difficulty === "medium" ? 2 : 3;
+  const spec = AI_LEVELS[difficulty];
+  const bookMove = pickBookMove(openingBook(), fen, spec.bookPlies);
+  if (bookMove) return bookMove;
 
-  if (difficulty === "easy") {
-    // Easy: prefer captures if available, else random.
-    const moves = chess.moves({ verbose: true });
-    const captures = moves.filter((m) => m.captured);
-    const choice = (captures.length ? pickRandom(captures) : pickRandom(moves));
-    return choice.from + choice.to + (choice.promotion ? choice.promotion : "");
+  const pos = parseFen(fen);
+  const { move } = search(pos, {
+    maxDepth: spec.maxDepth,
+    timeMs: spec.timeMs,
+    evalNoise: spec.evalNoiseCp,
+    noiseSeed: Math.floor(Math.random() * 0x7fffffff),
+  });
+  if (!move) return null;
+
+  if (Math.random() < spec.inaccuracyChance) {
+    const worse = pickInaccuracy(pos, move, spec);
+    if (worse) return moveToUci(worse);
   }
+  return moveToUci(move);
+}
+
+/**
+ * Decide whether the computer accepts a draw offer in this position.
+ * It searches with its level's budget (without noise) and takes the draw only when it thinks it is worse.
+ */
+export function aiAcceptsDraw(fen: string, aiColor: PlayerColor, difficulty: Difficulty): boolean {
+  const chess = new Chess(fen);
+  if (chess.isGameOver()) return false;
+  const { maxDepth, timeMs } = AI_LEVELS[difficulty];
+  const { score } = search(parseFen(fen), { maxDepth, timeMs });
+  // The search scores for the side to move.
+  const aiScore = chess.turn() === aiColor ? score : -score;
+  return aiScore <= DRAW_ACCEPT_SCORE;
+}
+
+/** A unit of computer thinking, small enough to post to a worker thread. */
+export type AiJob =
+  | { kind: "move"; fen: string; color: PlayerColor; difficulty: Difficulty }
+  | { kind: "draw"; fen: string; color: PlayerColor; difficulty: Difficulty };
+
+export type AiJobResult = { kind: "move"; uci: string | null } | { kind: "draw"; accept: boolean };
 
-  const { move } = minimax(chess, depth, -Infinity, Infinity, aiColor);
-  return move ?? null;
+export function runAiJob(job: AiJob): AiJobResult {
+  if (job.kind === "draw") return { kind: "draw", accept: aiAcceptsDraw(job.fen, job.color, job.difficulty) };
+  return { kind: "move", uci: chooseAiMove(job.fen, job.color, job.difficulty) };
 }
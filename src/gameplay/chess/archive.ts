@@ -0,0 +1,58 @@
+import type { ArchivedGame, GameResult, PlayerProfile, PlayerRef } from "../../systems/save";
+import { aiLevel, type ChessRoom } from "./game";
+import { exportPgn, pgnResult } from "./pgn";
+import type { PlayerColor, ProfileSummary } from "./types";
+
+/** Recent games listed with the lobby profile. */
+export const PROFILE_RECENT_GAMES = 5;
+
+function sideRef(room: ChessRoom, color: PlayerColor): PlayerRef {
+  const seat = room.seats[color];
+  if (seat?.playerId === "AI") return { name: seat.name, level: aiLevel(room, color) };
+  return { playerId: seat?.playerId, name: seat?.name };
+}
+
+/**
+ * The archive record for the room's finished game. Undefined while it is still on,
+ * for abandoned games (no result) and for exhibitions, which would flood the archive.
+ */
+export function archiveEntry(room: ChessRoom): ArchivedGame | undefined {
+  if (room.status !== "ended" || room.endedAt === undefined) return undefined;
+  if (room.selection.mode === "exhibition") return undefined;
+  const result = pgnResult(room);
+  if (result === "*") return undefined;
+
+  return {
+    id: `${room.id}-${room.startedAt ?? room.endedAt}`,
+    roomId: room.id,
+    mode: room.selection.mode,
+    white: sideRef(room, "w"),
+    black: sideRef(room, "b"),
+    result: result as GameResult,
+    reason: room.endReason ?? "game over",
+    pgn: exportPgn(room),
+    startedAt: room.startedAt,
+    endedAt: room.endedAt,
+  };
+}
+
+/** What the lobby shows of a player's saved profile. */
+export function profileSummary(profile: PlayerProfile, recent: ArchivedGame[]): ProfileSummary {
+  const vsComputer = Object.entries(profile.vsComputer)
+    .map(([level, counts]) => ({ level: Number(level), ...counts }))
+    .sort((a, b) => a.level - b.level);
+
+  return {
+    rating: profile.rating,
+    ratedGames: profile.ratedGames,
+    vsPlayers: { ...profile.vsPlayers },
+    vsComputer,
+    recent: recent.slice(0, PROFILE_RECENT_GAMES).map((game) => {
+      const color: PlayerColor = game.white.playerId === profile.playerId ? "w" : "b";
+      const opponent = color === "w" ? game.black : game.white;
+      const won = (game.result === "1-0" && color === "w") || (game.result === "0-1" && color === "b");
+      const outcome = game.result === "1/2-1/2" ? "draw" : won ? "win" : "loss";
+      return { opponent: opponent.name ?? "?", color, outcome, reason: game.reason, endedAt: game.endedAt };
+    }),
+  };
+}
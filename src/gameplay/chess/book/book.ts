@@ -0,0 +1,102 @@
+import { existsSync, readFileSync } from "node:fs";
+import { Chess } from "chess.js";
+
+import { OPENING_LINES } from "./openings";
+import { createPolyglotBook } from "./polyglot";
+import type { BookMove, OpeningBook, OpeningLine } from "./types";
+
+/** Where a Polyglot book is picked up from; override with CHESS_BOOK_PATH. */
+export const DEFAULT_BOOK_PATH = "assets/books/book.bin";
+
+/** Book positions ignore the move counters, so transpositions share entries. */
+export function positionKey(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+/** Opening book built from SAN lines, with names for the positions the lines reach. */
+export function createTreeBook(lines: OpeningLine[]): OpeningBook {
+  const tree = new Map<string, Map<string, number>>(); // position -> uci -> weight
+  const names = new Map<string, string>();
+
+  for (const line of lines) {
+    const chess = new Chess();
+    for (const san of line.moves.split(" ")) {
+      const before = positionKey(chess.fen());
+      const move = chess.move(san);
+      const uci = move.from + move.to + (move.promotion ?? "");
+      const next = tree.get(before) ?? new Map<string, number>();
+      next.set(uci, (next.get(uci) ?? 0) + line.weight);
+      tree.set(before, next);
+    }
+    names.set(positionKey(chess.fen()), line.name);
+  }
+
+  const moves = (fen: string): BookMove[] =>
+    [...(tree.get(positionKey(fen)) ?? [])].filter(([, w]) => w > 0).map(([uci, weight]) => ({ uci, weight }));
+
+  return { moves, name: (fen) => names.get(positionKey(fen)) };
+}
+
+let bundled: OpeningBook | undefined;
+let configured: OpeningBook | undefined;
+
+/** The bundled, named opening tree. */
+export function bundledBook(): OpeningBook {
+  bundled ??= createTreeBook(OPENING_LINES);
+  return bundled;
+}
+
+/**
+ * The book the AI plays from: a Polyglot file at CHESS_BOOK_PATH (or the default path)
+ * when one exists, otherwise the bundled tree.
+ */
+export function openingBook(): OpeningBook {
+  if (configured) return configured;
+  const path = process.env.CHESS_BOOK_PATH ?? DEFAULT_BOOK_PATH;
+  if (existsSync(path)) {
+    try {
+      configured = createPolyglotBook(readFileSync(path));
+      return configured;
+    } catch (err) {
+      console.warn(`[book] could not read ${path}, using the bundled book`, err);
+    }
+  }
+  configured = bundledBook();
+  return configured;
+}
+
+/** Half-moves played since the standard start, from the FEN's move counters. */
+export function plyOf(fen: string): number {
+  const [, turn, , , , fullmove] = fen.split(" ");
+  return (Math.max(1, Number(fullmove) || 1) - 1) * 2 + (turn === "b" ? 1 : 0);
+}
+
+/**
+ * A book move for `fen`, picked with probability proportional to its weight.
+ * Nothing once the game is past `maxPly` half-moves or out of book.
+ */
+export function pickBookMove(book: OpeningBook, fen: string, maxPly: number, random = Math.random): string | undefined {
+  if (plyOf(fen) >= maxPly) return undefined;
+
+  // Only offer moves that are legal here, in case the book disagrees with the position.
+  const chess = new Chess(fen);
+  const legal = new Set(chess.moves({ verbose: true }).map((m) => m.from + m.to + (m.promotion ?? "")));
+  const candidates = book.moves(fen).filter((m) => legal.has(m.uci));
+  const total = candidates.reduce((sum, m) => sum + m.weight, 0);
+  if (!total) return undefined;
+
+  let roll = random() * total;
+  for (const m of candidates) {
+    roll -= m.weight;
+    if (roll < 0) return m.uci;
+  }
+  return candidates[candidates.length - 1].uci;
+}
+
+/** Name of the most specific opening reached along a game (positions in order). */
+export function recognizeOpening(fens: string[]): string | undefined {
+  const book = bundledBook();
+  let name: string | undefined;
+  for (const fen of fens) name = book.name(fen) ?? name;
+  return name;
+}
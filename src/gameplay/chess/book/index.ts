@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./book";
+export * from "./openings";
+export * from "./polyglot";
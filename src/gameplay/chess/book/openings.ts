@@ -0,0 +1,60 @@
+import type { OpeningLine } from "./types";
+
+/**
+ * Bundled opening tree. Each line's weight counts towards every move along it,
+ * so shared trunks (1.e4, 1.d4 ...) are weighted by everything that follows.
+ * Shorter lines also name the positions on the way (e.g. "Sicilian Defence").
+ */
+export const OPENING_LINES: OpeningLine[] = [
+  { eco: "B00", name: "King's Pawn Game", moves: "e4", weight: 0 },
+  { eco: "C20", name: "Open Game", moves: "e4 e5", weight: 0 },
+  { eco: "C60", name: "Ruy Lopez", moves: "e4 e5 Nf3 Nc6 Bb5", weight: 5 },
+  { eco: "C70", name: "Ruy Lopez: Morphy Defence", moves: "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O", weight: 25 },
+  { eco: "C65", name: "Ruy Lopez: Berlin Defence", moves: "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O", weight: 12 },
+  { eco: "C50", name: "Italian Game", moves: "e4 e5 Nf3 Nc6 Bc4", weight: 5 },
+  { eco: "C50", name: "Italian Game: Giuoco Piano", moves: "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3", weight: 15 },
+  { eco: "C55", name: "Two Knights Defence", moves: "e4 e5 Nf3 Nc6 Bc4 Nf6 d3", weight: 8 },
+  { eco: "C45", name: "Scotch Game", moves: "e4 e5 Nf3 Nc6 d4 exd4 Nxd4", weight: 10 },
+  { eco: "C42", name: "Petrov's Defence", moves: "e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4", weight: 8 },
+  { eco: "C41", name: "Philidor Defence", moves: "e4 e5 Nf3 d6 d4", weight: 3 },
+  { eco: "C25", name: "Vienna Game", moves: "e4 e5 Nc3 Nf6", weight: 4 },
+  { eco: "C30", name: "King's Gambit", moves: "e4 e5 f4 exf4", weight: 3 },
+  { eco: "B20", name: "Sicilian Defence", moves: "e4 c5", weight: 0 },
+  { eco: "B90", name: "Sicilian Defence: Najdorf Variation", moves: "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6", weight: 15 },
+  { eco: "B70", name: "Sicilian Defence: Dragon Variation", moves: "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6", weight: 6 },
+  { eco: "B33", name: "Sicilian Defence: Open", moves: "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3", weight: 8 },
+  { eco: "B40", name: "Sicilian Defence: French Variation", moves: "e4 c5 Nf3 e6 d4 cxd4 Nxd4", weight: 10 },
+  { eco: "B23", name: "Sicilian Defence: Closed", moves: "e4 c5 Nc3 Nc6 g3", weight: 5 },
+  { eco: "B22", name: "Sicilian Defence: Alapin Variation", moves: "e4 c5 c3 Nf6 e5 Nd5", weight: 6 },
+  { eco: "C00", name: "French Defence", moves: "e4 e6 d4 d5", weight: 0 },
+  { eco: "C02", name: "French Defence: Advance Variation", moves: "e4 e6 d4 d5 e5 c5 c3", weight: 6 },
+  { eco: "C03", name: "French Defence: Tarrasch Variation", moves: "e4 e6 d4 d5 Nd2 Nf6", weight: 6 },
+  { eco: "C11", name: "French Defence: Classical Variation", moves: "e4 e6 d4 d5 Nc3 Nf6", weight: 5 },
+  { eco: "C01", name: "French Defence: Exchange Variation", moves: "e4 e6 d4 d5 exd5 exd5", weight: 2 },
+  { eco: "B10", name: "Caro-Kann Defence", moves: "e4 c6 d4 d5", weight: 0 },
+  { eco: "B12", name: "Caro-Kann Defence: Advance Variation", moves: "e4 c6 d4 d5 e5 Bf5", weight: 6 },
+  { eco: "B18", name: "Caro-Kann Defence: Classical Variation", moves: "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5", weight: 6 },
+  { eco: "B01", name: "Scandinavian Defence", moves: "e4 d5 exd5 Qxd5 Nc3 Qa5", weight: 4 },
+  { eco: "B02", name: "Alekhine's Defence", moves: "e4 Nf6 e5 Nd5 d4 d6", weight: 2 },
+  { eco: "B07", name: "Pirc Defence", moves: "e4 d6 d4 Nf6 Nc3 g6", weight: 4 },
+  { eco: "B06", name: "Modern Defence", moves: "e4 g6 d4 Bg7", weight: 2 },
+  { eco: "A40", name: "Queen's Pawn Game", moves: "d4", weight: 0 },
+  { eco: "D06", name: "Queen's Gambit", moves: "d4 d5 c4", weight: 0 },
+  { eco: "D30", name: "Queen's Gambit Declined", moves: "d4 d5 c4 e6 Nc3 Nf6 Bg5", weight: 15 },
+  { eco: "D20", name: "Queen's Gambit Accepted", moves: "d4 d5 c4 dxc4 Nf3 Nf6 e3", weight: 6 },
+  { eco: "D10", name: "Slav Defence", moves: "d4 d5 c4 c6 Nf3 Nf6 Nc3", weight: 12 },
+  { eco: "D02", name: "London System", moves: "d4 d5 Nf3 Nf6 Bf4", weight: 6 },
+  { eco: "A45", name: "Indian Defence", moves: "d4 Nf6", weight: 0 },
+  { eco: "E20", name: "Nimzo-Indian Defence", moves: "d4 Nf6 c4 e6 Nc3 Bb4", weight: 10 },
+  { eco: "E12", name: "Queen's Indian Defence", moves: "d4 Nf6 c4 e6 Nf3 b6", weight: 6 },
+  { eco: "E01", name: "Catalan Opening", moves: "d4 Nf6 c4 e6 g3 d5 Bg2", weight: 6 },
+  { eco: "E70", name: "King's Indian Defence", moves: "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6", weight: 10 },
+  { eco: "D80", name: "Grünfeld Defence", moves: "d4 Nf6 c4 g6 Nc3 d5", weight: 8 },
+  { eco: "A56", name: "Benoni Defence", moves: "d4 Nf6 c4 c5 d5", weight: 3 },
+  { eco: "A80", name: "Dutch Defence", moves: "d4 f5 g3 Nf6 Bg2", weight: 3 },
+  { eco: "A10", name: "English Opening", moves: "c4", weight: 0 },
+  { eco: "A20", name: "English Opening: Reversed Sicilian", moves: "c4 e5 Nc3 Nf6", weight: 6 },
+  { eco: "A15", name: "English Opening: Anglo-Indian Defence", moves: "c4 Nf6 Nc3 e6", weight: 5 },
+  { eco: "A30", name: "English Opening: Symmetrical Variation", moves: "c4 c5 Nf3 Nf6", weight: 4 },
+  { eco: "A09", name: "Réti Opening", moves: "Nf3 d5 c4", weight: 5 },
+];
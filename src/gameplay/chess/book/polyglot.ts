@@ -0,0 +1,100 @@
+import { Chess, type Square } from "chess.js";
+
+import { POLYGLOT_RANDOM64 } from "./polyglot-keys";
+import type { BookMove, OpeningBook } from "./types";
+
+const ENTRY_BYTES = 16;
+const CASTLE_OFFSET = 768;
+const EP_OFFSET = 772;
+const TURN_OFFSET = 780;
+
+// Polyglot piece kinds: black pawn 0, white pawn 1, black knight 2, ... white king 11.
+const PIECE_KIND: Record<string, number> = { p: 0, n: 2, b: 4, r: 6, q: 8, k: 10 };
+const PROMOTIONS = ["", "n", "b", "r", "q"];
+
+// Polyglot writes castling as "king takes own rook".
+const CASTLING_MOVES: Record<string, string> = { e1h1: "e1g1", e1a1: "e1c1", e8h8: "e8g8", e8a8: "e8c8" };
+
+/** Polyglot hash of a position. */
+export function polyglotKey(fen: string): bigint {
+  const chess = new Chess(fen);
+  let key = 0n;
+
+  const board = chess.board();
+  for (let r = 0; r < 8; r++) {
+    for (let f = 0; f < 8; f++) {
+      const piece = board[r][f];
+      if (!piece) continue;
+      const kind = PIECE_KIND[piece.type] + (piece.color === "w" ? 1 : 0);
+      const row = 7 - r;
+      key ^= POLYGLOT_RANDOM64[64 * kind + 8 * row + f];
+    }
+  }
+
+  const [, turn, castling, ep] = chess.fen().split(" ");
+  ["K", "Q", "k", "q"].forEach((flag, i) => {
+    if (castling.includes(flag)) key ^= POLYGLOT_RANDOM64[CASTLE_OFFSET + i];
+  });
+
+  // The en-passant file only counts when a pawn of the side to move can actually take.
+  if (ep !== "-") {
+    const file = ep.charCodeAt(0) - 97;
+    const pawnRow = turn === "w" ? 4 : 3;
+    const capturable = [file - 1, file + 1].some((f) => {
+      if (f < 0 || f > 7) return false;
+      const piece = chess.get(square(f, pawnRow));
+      return piece?.type === "p" && piece.color === turn;
+    });
+    if (capturable) key ^= POLYGLOT_RANDOM64[EP_OFFSET + file];
+  }
+
+  if (turn === "w") key ^= POLYGLOT_RANDOM64[TURN_OFFSET];
+  return key;
+}
+
+/** Square name from 0-based file and row (a1 is 0, 0). */
+function square(file: number, row: number): Square {
+  return `${String.fromCharCode(97 + file)}${row + 1}` as Square;
+}
+
+function decodeMove(raw: number, fen: string): string {
+  const to = square(raw & 7, (raw >> 3) & 7);
+  const from = square((raw >> 6) & 7, (raw >> 9) & 7);
+  const uci = from + to + PROMOTIONS[(raw >> 12) & 7];
+
+  const castle = CASTLING_MOVES[uci];
+  if (castle && new Chess(fen).get(from)?.type === "k") return castle;
+  return uci;
+}
+
+/**
+ * Opening book backed by a Polyglot `.bin` file (16-byte big-endian entries sorted by key).
+ * Polyglot books carry no opening names.
+ */
+export function createPolyglotBook(data: Uint8Array): OpeningBook {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const count = Math.floor(data.byteLength / ENTRY_BYTES);
+  const keyAt = (i: number) => view.getBigUint64(i * ENTRY_BYTES);
+
+  const moves = (fen: string): BookMove[] => {
+    const key = polyglotKey(fen);
+
+    // Entries for one position are contiguous; find the first of them.
+    let lo = 0;
+    let hi = count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (keyAt(mid) < key) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const found: BookMove[] = [];
+    for (let i = lo; i < count && keyAt(i) === key; i++) {
+      const weight = view.getUint16(i * ENTRY_BYTES + 10);
+      if (weight > 0) found.push({ uci: decodeMove(view.getUint16(i * ENTRY_BYTES + 8), fen), weight });
+    }
+    return found;
+  };
+
+  return { moves, name: () => undefined };
+}
@@ -0,0 +1,21 @@
+export type BookMove = {
+  uci: string;
+  /** Relative frequency; moves are picked with probability proportional to it. */
+  weight: number;
+};
+
+export interface OpeningBook {
+  /** Book moves for a position (empty when out of book). */
+  moves: (fen: string) => BookMove[];
+  /** Name of the opening this exact position belongs to, if the book knows one. */
+  name: (fen: string) => string | undefined;
+}
+
+/** One named line of the bundled book, in SAN from the standard start. */
+export type OpeningLine = {
+  eco: string;
+  name: string;
+  moves: string;
+  /** Rough popularity; summed per move across every line that plays it. */
+  weight: number;
+};
@@ -0,0 +1,86 @@
+import type { ClockState, PlayerColor, TimeControl, TimeControlId } from "./types";
+
+/**
+ * Time control presets offered in the lobby.
+ * `untimed` keeps the original no-clock behaviour.
+ */
+export const TIME_CONTROLS: Record<TimeControlId, TimeControl | null> = {
+  untimed: null,
+  bullet: { baseMs: 60_000, incrementMs: 1_000, delayMs: 0 },
+  blitz: { baseMs: 180_000, incrementMs: 2_000, delayMs: 0 },
+  rapid: { baseMs: 600_000, incrementMs: 5_000, delayMs: 0 },
+  classical: { baseMs: 1_800_000, incrementMs: 0, delayMs: 10_000 },
+};
+
+/** How often the server polls running clocks for flag-fall between moves. */
+export const FLAG_CHECK_INTERVAL_MS = 250;
+
+export type ChessClock = {
+  timeControl: TimeControlId;
+  control: TimeControl;
+  remainingMs: Record<PlayerColor, number>;
+  running?: PlayerColor;
+  runningSince?: number;
+};
+
+export function createClock(timeControl: TimeControlId): ChessClock | undefined {
+  const control = TIME_CONTROLS[timeControl];
+  if (!control) return undefined;
+  return {
+    timeControl,
+    control,
+    remainingMs: { w: control.baseMs, b: control.baseMs },
+  };
+}
+
+/** Time charged to the running side so far, after the per-turn delay is used up. */
+function chargedMs(clock: ChessClock, now: number): number {
+  if (!clock.running || clock.runningSince === undefined) return 0;
+  const elapsed = Math.max(0, now - clock.runningSince);
+  return Math.max(0, elapsed - clock.control.delayMs);
+}
+
+export function remainingMs(clock: ChessClock, color: PlayerColor, now: number): number {
+  const left = clock.remainingMs[color] - (clock.running === color ? chargedMs(clock, now) : 0);
+  return Math.max(0, left);
+}
+
+export function startClock(clock: ChessClock, color: PlayerColor, now: number): void {
+  clock.running = color;
+  clock.runningSince = now;
+}
+
+export function stopClock(clock: ChessClock, now: number): void {
+  if (!clock.running) return;
+  clock.remainingMs[clock.running] = remainingMs(clock, clock.running, now);
+  clock.running = undefined;
+  clock.runningSince = undefined;
+}
+
+/**
+ * Call after the running side completes a move: charge their time,
+ * add the increment and start the opponent's clock.
+ */
+export function pressClock(clock: ChessClock, now: number): void {
+  const mover = clock.running;
+  if (!mover) return;
+  stopClock(clock, now);
+  clock.remainingMs[mover] += clock.control.incrementMs;
+  startClock(clock, mover === "w" ? "b" : "w", now);
+}
+
+export function flaggedColor(clock: ChessClock, now: number): PlayerColor | undefined {
+  if (!clock.running) return undefined;
+  return remainingMs(clock, clock.running, now) <= 0 ? clock.running : undefined;
+}
+
+export function clockSnapshot(clock: ChessClock, now: number): ClockState {
+  const elapsed =
+    clock.running && clock.runningSince !== undefined ? Math.max(0, now - clock.runningSince) : 0;
+  return {
+    timeControl: clock.timeControl,
+    remainingMs: { w: remainingMs(clock, "w", now), b: remainingMs(clock, "b", now) },
+    running: clock.running,
+    delayLeftMs: clock.running ? Math.max(0, clock.control.delayMs - elapsed) : 0,
+  };
+}
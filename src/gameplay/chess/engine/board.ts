@@ -0,0 +1,485 @@
+/**
+ * Compact 0x88 board with make/unmake and incremental Zobrist hashing.
+ * This is the search engine's own representation; chess.js stays the source of truth for game rules.
+ */
+
+export const WHITE = 0;
+export const BLACK = 1;
+export type Side = typeof WHITE | typeof BLACK;
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+export const EMPTY = 0;
+
+/** Piece code: type in the low 3 bits, color in bit 3. */
+export function makePiece(side: Side, type: number): number {
+  return type | (side << 3);
+}
+export function pieceType(piece: number): number {
+  return piece & 7;
+}
+export function pieceSide(piece: number): Side {
+  return (piece >> 3) as Side;
+}
+
+// Move encoding: from | to << 7 | promotion type << 14 | flags << 17
+export const FLAG_CAPTURE = 1;
+export const FLAG_EP = 2;
+export const FLAG_CASTLE = 4;
+export const FLAG_DOUBLE = 8;
+
+export function encodeMove(from: number, to: number, promo = 0, flags = 0): number {
+  return from | (to << 7) | (promo << 14) | (flags << 17);
+}
+export function moveFrom(m: number): number {
+  return m & 0x7f;
+}
+export function moveTo(m: number): number {
+  return (m >> 7) & 0x7f;
+}
+export function movePromo(m: number): number {
+  return (m >> 14) & 7;
+}
+export function moveFlags(m: number): number {
+  return (m >> 17) & 0xf;
+}
+
+const KNIGHT_OFFSETS = [33, 31, 18, 14, -33, -31, -18, -14];
+const KING_OFFSETS = [1, -1, 16, -16, 17, 15, -17, -15];
+const BISHOP_DIRS = [17, 15, -17, -15];
+const ROOK_DIRS = [16, -16, 1, -1];
+
+const CASTLE_WK = 1;
+const CASTLE_WQ = 2;
+const CASTLE_BK = 4;
+const CASTLE_BQ = 8;
+
+// Rights kept when a move touches a square (king and rook home squares clear rights).
+const CASTLE_MASK = new Int8Array(128).fill(15);
+CASTLE_MASK[0] = 15 & ~CASTLE_WQ;
+CASTLE_MASK[4] = 15 & ~(CASTLE_WK | CASTLE_WQ);
+CASTLE_MASK[7] = 15 & ~CASTLE_WK;
+CASTLE_MASK[112] = 15 & ~CASTLE_BQ;
+CASTLE_MASK[116] = 15 & ~(CASTLE_BK | CASTLE_BQ);
+CASTLE_MASK[119] = 15 & ~CASTLE_BK;
+
+// Zobrist keys come from a seeded PRNG so hashes are stable across runs and threads.
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) | 0;
+  };
+}
+
+const rand = mulberry32(0x5eed);
+const Z_PIECE_LO = new Int32Array(16 * 128).map(() => rand());
+const Z_PIECE_HI = new Int32Array(16 * 128).map(() => rand());
+const Z_CASTLE_LO = new Int32Array(16).map(() => rand());
+const Z_CASTLE_HI = new Int32Array(16).map(() => rand());
+const Z_EP_LO = new Int32Array(8).map(() => rand());
+const Z_EP_HI = new Int32Array(8).map(() => rand());
+const Z_SIDE_LO = rand();
+const Z_SIDE_HI = rand();
+
+type Undo = {
+  move: number;
+  captured: number;
+  castling: number;
+  ep: number;
+  halfmove: number;
+  hashLo: number;
+  hashHi: number;
+};
+
+export type Position = {
+  board: Int8Array; // 0x88: index = rank * 16 + file, rank 0 is rank 1
+  side: Side;
+  castling: number;
+  ep: number; // en-passant target square, -1 if none
+  halfmove: number;
+  kings: [number, number];
+  hashLo: number;
+  hashHi: number;
+  undo: Undo[];
+};
+
+export function squareIndex(name: string): number {
+  return (Number(name[1]) - 1) * 16 + (name.charCodeAt(0) - 97);
+}
+
+export function squareName(sq: number): string {
+  return String.fromCharCode(97 + (sq & 7)) + String((sq >> 4) + 1);
+}
+
+const FEN_PIECES: Record<string, number> = { p: PAWN, n: KNIGHT, b: BISHOP, r: ROOK, q: QUEEN, k: KING };
+const PROMO_CHARS = ["", "", "n", "b", "r", "q"];
+
+function hashPiece(pos: Position, piece: number, sq: number) {
+  pos.hashLo ^= Z_PIECE_LO[piece * 128 + sq];
+  pos.hashHi ^= Z_PIECE_HI[piece * 128 + sq];
+}
+
+function hashState(pos: Position) {
+  pos.hashLo ^= Z_CASTLE_LO[pos.castling];
+  pos.hashHi ^= Z_CASTLE_HI[pos.castling];
+  if (pos.ep >= 0) {
+    pos.hashLo ^= Z_EP_LO[pos.ep & 7];
+    pos.hashHi ^= Z_EP_HI[pos.ep & 7];
+  }
+}
+
+/** Parse a FEN that chess.js has already validated. */
+export function parseFen(fen: string): Position {
+  const [placement, turn, castling, ep, halfmove] = fen.trim().split(/\s+/);
+  const pos: Position = {
+    board: new Int8Array(128),
+    side: turn === "b" ? BLACK : WHITE,
+    castling: 0,
+    ep: ep && ep !== "-" ? squareIndex(ep) : -1,
+    halfmove: Number(halfmove) || 0,
+    kings: [-1, -1],
+    hashLo: 0,
+    hashHi: 0,
+    undo: [],
+  };
+
+  const rows = placement.split("/");
+  for (let r = 0; r < 8; r++) {
+    let file = 0;
+    for (const ch of rows[r]) {
+      if (ch >= "1" && ch <= "8") {
+        file += Number(ch);
+        continue;
+      }
+      const side: Side = ch === ch.toUpperCase() ? WHITE : BLACK;
+      const type = FEN_PIECES[ch.toLowerCase()];
+      const sq = (7 - r) * 16 + file;
+      const piece = makePiece(side, type);
+      pos.board[sq] = piece;
+      hashPiece(pos, piece, sq);
+      if (type === KING) pos.kings[side] = sq;
+      file++;
+    }
+  }
+
+  if (castling?.includes("K")) pos.castling |= CASTLE_WK;
+  if (castling?.includes("Q")) pos.castling |= CASTLE_WQ;
+  if (castling?.includes("k")) pos.castling |= CASTLE_BK;
+  if (castling?.includes("q")) pos.castling |= CASTLE_BQ;
+
+  hashState(pos);
+  if (pos.side === BLACK) {
+    pos.hashLo ^= Z_SIDE_LO;
+    pos.hashHi ^= Z_SIDE_HI;
+  }
+  return pos;
+}
+
+export function moveToUci(m: number): string {
+  return squareName(moveFrom(m)) + squareName(moveTo(m)) + PROMO_CHARS[movePromo(m)];
+}
+
+export function isSquareAttacked(pos: Position, sq: number, by: Side): boolean {
+  const b = pos.board;
+
+  // Pawns: a white pawn on p attacks p+15 and p+17.
+  if (by === WHITE) {
+    const l = sq - 15;
+    const r = sq - 17;
+    if (!(l & 0x88) && b[l] === makePiece(WHITE, PAWN)) return true;
+    if (!(r & 0x88) && b[r] === makePiece(WHITE, PAWN)) return true;
+  } else {
+    const l = sq + 15;
+    const r = sq + 17;
+    if (!(l & 0x88) && b[l] === makePiece(BLACK, PAWN)) return true;
+    if (!(r & 0x88) && b[r] === makePiece(BLACK, PAWN)) return true;
+  }
+
+  const knight = makePiece(by, KNIGHT);
+  for (const o of KNIGHT_OFFSETS) {
+    const t = sq + o;
+    if (!(t & 0x88) && b[t] === knight) return true;
+  }
+
+  const king = makePiece(by, KING);
+  for (const o of KING_OFFSETS) {
+    const t = sq + o;
+    if (!(t & 0x88) && b[t] === king) return true;
+  }
+
+  const bishop = makePiece(by, BISHOP);
+  const rook = makePiece(by, ROOK);
+  const queen = makePiece(by, QUEEN);
+  for (const d of BISHOP_DIRS) {
+    let t = sq + d;
+    while (!(t & 0x88)) {
+      const p = b[t];
+      if (p) {
+        if (p === bishop || p === queen) return true;
+        break;
+      }
+      t += d;
+    }
+  }
+  for (const d of ROOK_DIRS) {
+    let t = sq + d;
+    while (!(t & 0x88)) {
+      const p = b[t];
+      if (p) {
+        if (p === rook || p === queen) return true;
+        break;
+      }
+      t += d;
+    }
+  }
+  return false;
+}
+
+export function inCheck(pos: Position): boolean {
+  return isSquareAttacked(pos, pos.kings[pos.side], (pos.side ^ 1) as Side);
+}
+
+function pushPawnMove(out: number[], from: number, to: number, flags: number, promoRank: boolean) {
+  if (promoRank) {
+    for (const promo of [QUEEN, ROOK, BISHOP, KNIGHT]) out.push(encodeMove(from, to, promo, flags));
+  } else {
+    out.push(encodeMove(from, to, 0, flags));
+  }
+}
+
+/**
+ * Pseudo-legal move generation (king safety is checked in makeMove).
+ * With `capturesOnly`, only captures and promotions are generated (for quiescence).
+ */
+export function generateMoves(pos: Position, out: number[], capturesOnly = false): void {
+  const b = pos.board;
+  const us = pos.side;
+  const them = (us ^ 1) as Side;
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const piece = b[sq];
+    if (!piece || pieceSide(piece) !== us) continue;
+    const type = pieceType(piece);
+
+    if (type === PAWN) {
+      const fwd = us === WHITE ? 16 : -16;
+      const startRank = us === WHITE ? 1 : 6;
+      const lastRank = us === WHITE ? 7 : 0;
+      const one = sq + fwd;
+      if (!(one & 0x88) && !b[one]) {
+        const promo = one >> 4 === lastRank;
+        if (!capturesOnly || promo) pushPawnMove(out, sq, one, 0, promo);
+        const two = one + fwd;
+        if (!capturesOnly && sq >> 4 === startRank && !b[two]) out.push(encodeMove(sq, two, 0, FLAG_DOUBLE));
+      }
+      for (const side of [fwd - 1, fwd + 1]) {
+        const t = sq + side;
+        if (t & 0x88) continue;
+        const target = b[t];
+        if (target && pieceSide(target) === them) {
+          pushPawnMove(out, sq, t, FLAG_CAPTURE, t >> 4 === lastRank);
+        } else if (t === pos.ep) {
+          out.push(encodeMove(sq, t, 0, FLAG_CAPTURE | FLAG_EP));
+        }
+      }
+      continue;
+    }
+
+    if (type === KNIGHT || type === KING) {
+      for (const o of type === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS) {
+        const t = sq + o;
+        if (t & 0x88) continue;
+        const target = b[t];
+        if (!target) {
+          if (!capturesOnly) out.push(encodeMove(sq, t));
+        } else if (pieceSide(target) === them) {
+          out.push(encodeMove(sq, t, 0, FLAG_CAPTURE));
+        }
+      }
+      continue;
+    }
+
+    const dirs = type === BISHOP ? BISHOP_DIRS : type === ROOK ? ROOK_DIRS : KING_OFFSETS;
+    for (const d of dirs) {
+      let t = sq + d;
+      while (!(t & 0x88)) {
+        const target = b[t];
+        if (!target) {
+          if (!capturesOnly) out.push(encodeMove(sq, t));
+        } else {
+          if (pieceSide(target) === them) out.push(encodeMove(sq, t, 0, FLAG_CAPTURE));
+          break;
+        }
+        t += d;
+      }
+    }
+  }
+
+  if (capturesOnly) return;
+
+  // Castling: rights, empty path, and the king may not start in, pass through or land in check.
+  const home = us === WHITE ? 4 : 116;
+  if (pos.kings[us] !== home) return;
+  const kingSide = us === WHITE ? CASTLE_WK : CASTLE_BK;
+  const queenSide = us === WHITE ? CASTLE_WQ : CASTLE_BQ;
+  if (pos.castling & kingSide && !b[home + 1] && !b[home + 2]) {
+    if (!isSquareAttacked(pos, home, them) && !isSquareAttacked(pos, home + 1, them) && !isSquareAttacked(pos, home + 2, them)) {
+      out.push(encodeMove(home, home + 2, 0, FLAG_CASTLE));
+    }
+  }
+  if (pos.castling & queenSide && !b[home - 1] && !b[home - 2] && !b[home - 3]) {
+    if (!isSquareAttacked(pos, home, them) && !isSquareAttacked(pos, home - 1, them) && !isSquareAttacked(pos, home - 2, them)) {
+      out.push(encodeMove(home, home - 2, 0, FLAG_CASTLE));
+    }
+  }
+}
+
+/** Play a pseudo-legal move. Returns false (leaving the position unchanged) if it is illegal. */
+export function makeMove(pos: Position, m: number): boolean {
+  const b = pos.board;
+  const from = moveFrom(m);
+  const to = moveTo(m);
+  const flags = moveFlags(m);
+  const promo = movePromo(m);
+  const us = pos.side;
+  const piece = b[from];
+
+  const capSq = flags & FLAG_EP ? (us === WHITE ? to - 16 : to + 16) : to;
+  const captured = flags & FLAG_CAPTURE ? b[capSq] : EMPTY;
+
+  pos.undo.push({
+    move: m,
+    captured,
+    castling: pos.castling,
+    ep: pos.ep,
+    halfmove: pos.halfmove,
+    hashLo: pos.hashLo,
+    hashHi: pos.hashHi,
+  });
+
+  hashState(pos);
+
+  if (captured) {
+    hashPiece(pos, captured, capSq);
+    b[capSq] = EMPTY;
+  }
+
+  hashPiece(pos, piece, from);
+  b[from] = EMPTY;
+  const placed = promo ? makePiece(us, promo) : piece;
+  b[to] = placed;
+  hashPiece(pos, placed, to);
+
+  if (flags & FLAG_CASTLE) {
+    const kingSide = to > from;
+    const rookFrom = kingSide ? from + 3 : from - 4;
+    const rookTo = kingSide ? from + 1 : from - 1;
+    const rook = b[rookFrom];
+    hashPiece(pos, rook, rookFrom);
+    b[rookFrom] = EMPTY;
+    b[rookTo] = rook;
+    hashPiece(pos, rook, rookTo);
+  }
+
+  if (pieceType(piece) === KING) pos.kings[us] = to;
+
+  pos.castling &= CASTLE_MASK[from] & CASTLE_MASK[to];
+  pos.ep = flags & FLAG_DOUBLE ? (from + to) >> 1 : -1;
+  pos.halfmove = captured || pieceType(piece) === PAWN ? 0 : pos.halfmove + 1;
+  hashState(pos);
+
+  pos.side = (us ^ 1) as Side;
+  pos.hashLo ^= Z_SIDE_LO;
+  pos.hashHi ^= Z_SIDE_HI;
+
+  if (isSquareAttacked(pos, pos.kings[us], pos.side)) {
+    unmakeMove(pos);
+    return false;
+  }
+  return true;
+}
+
+export function unmakeMove(pos: Position): void {
+  const u = pos.undo.pop();
+  if (!u) return;
+  const b = pos.board;
+  const m = u.move;
+  const from = moveFrom(m);
+  const to = moveTo(m);
+  const flags = moveFlags(m);
+  const us = (pos.side ^ 1) as Side;
+
+  const moved = b[to];
+  b[from] = movePromo(m) ? makePiece(us, PAWN) : moved;
+  b[to] = EMPTY;
+
+  if (u.captured) {
+    const capSq = flags & FLAG_EP ? (us === WHITE ? to - 16 : to + 16) : to;
+    b[capSq] = u.captured;
+  }
+
+  if (flags & FLAG_CASTLE) {
+    const kingSide = to > from;
+    const rookFrom = kingSide ? from + 3 : from - 4;
+    const rookTo = kingSide ? from + 1 : from - 1;
+    b[rookFrom] = b[rookTo];
+    b[rookTo] = EMPTY;
+  }
+
+  if (pieceType(b[from]) === KING) pos.kings[us] = from;
+
+  pos.side = us;
+  pos.castling = u.castling;
+  pos.ep = u.ep;
+  pos.halfmove = u.halfmove;
+  pos.hashLo = u.hashLo;
+  pos.hashHi = u.hashHi;
+}
+
+/** Legal moves only. Slower than generateMoves; meant for the root and tooling. */
+export function legalMoves(pos: Position): number[] {
+  const pseudo: number[] = [];
+  generateMoves(pos, pseudo);
+  const legal: number[] = [];
+  for (const m of pseudo) {
+    if (!makeMove(pos, m)) continue;
+    unmakeMove(pos);
+    legal.push(m);
+  }
+  return legal;
+}
+
+/** Same position seen earlier since the last irreversible move. */
+export function isRepetition(pos: Position): boolean {
+  const stop = Math.max(0, pos.undo.length - pos.halfmove);
+  for (let i = pos.undo.length - 2; i >= stop; i -= 2) {
+    const u = pos.undo[i];
+    if (u.hashLo === pos.hashLo && u.hashHi === pos.hashHi) return true;
+  }
+  return false;
+}
+
+export function perft(pos: Position, depth: number): number {
+  if (depth === 0) return 1;
+  const moves: number[] = [];
+  generateMoves(pos, moves);
+  let nodes = 0;
+  for (const m of moves) {
+    if (!makeMove(pos, m)) continue;
+    nodes += perft(pos, depth - 1);
+    unmakeMove(pos);
+  }
+  return nodes;
+}
@@ -0,0 +1,146 @@
+import { BISHOP, KING, KNIGHT, PAWN, QUEEN, ROOK, WHITE, pieceSide, pieceType, type Position } from "./board";
+
+export const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 20000];
+
+// Piece-square tables from White's point of view, a8..h8 first (as you would read a diagram).
+const PAWN_PST = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+   5,  5, 10, 25, 25, 10,  5,  5,
+   0,  0,  0, 20, 20,  0,  0,  0,
+   5, -5,-10,  0,  0,-10, -5,  5,
+   5, 10, 10,-20,-20, 10, 10,  5,
+   0,  0,  0,  0,  0,  0,  0,  0,
+];
+const KNIGHT_PST = [
+  -50,-40,-30,-30,-30,-30,-40,-50,
+  -40,-20,  0,  0,  0,  0,-20,-40,
+  -30,  0, 10, 15, 15, 10,  0,-30,
+  -30,  5, 15, 20, 20, 15,  5,-30,
+  -30,  0, 15, 20, 20, 15,  0,-30,
+  -30,  5, 10, 15, 15, 10,  5,-30,
+  -40,-20,  0,  5,  5,  0,-20,-40,
+  -50,-40,-30,-30,-30,-30,-40,-50,
+];
+const BISHOP_PST = [
+  -20,-10,-10,-10,-10,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5, 10, 10,  5,  0,-10,
+  -10,  5,  5, 10, 10,  5,  5,-10,
+  -10,  0, 10, 10, 10, 10,  0,-10,
+  -10, 10, 10, 10, 10, 10, 10,-10,
+  -10,  5,  0,  0,  0,  0,  5,-10,
+  -20,-10,-10,-10,-10,-10,-10,-20,
+];
+const ROOK_PST = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+   5, 10, 10, 10, 10, 10, 10,  5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+   0,  0,  0,  5,  5,  0,  0,  0,
+];
+const QUEEN_PST = [
+  -20,-10,-10, -5, -5,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5,  5,  5,  5,  0,-10,
+   -5,  0,  5,  5,  5,  5,  0, -5,
+    0,  0,  5,  5,  5,  5,  0, -5,
+  -10,  5,  5,  5,  5,  5,  0,-10,
+  -10,  0,  5,  0,  0,  0,  0,-10,
+  -20,-10,-10, -5, -5,-10,-10,-20,
+];
+const KING_MIDDLE_PST = [
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -20,-30,-30,-40,-40,-30,-30,-20,
+  -10,-20,-20,-20,-20,-20,-20,-10,
+   20, 20,  0,  0,  0,  0, 20, 20,
+   20, 30, 10,  0,  0, 10, 30, 20,
+];
+const KING_END_PST = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
+
+const PST: Record<number, number[]> = {
+  [PAWN]: PAWN_PST,
+  [KNIGHT]: KNIGHT_PST,
+  [BISHOP]: BISHOP_PST,
+  [ROOK]: ROOK_PST,
+  [QUEEN]: QUEEN_PST,
+};
+
+/** Non-pawn material (both sides, kings excluded) at or below which the king table switches to the endgame one. */
+const ENDGAME_MATERIAL = 1300;
+
+function pstIndex(sq: number, white: boolean): number {
+  const rank = sq >> 4;
+  const file = sq & 7;
+  return (white ? 7 - rank : rank) * 8 + file;
+}
+
+/**
+ * Static evaluation in centipawns from the side to move's point of view:
+ * material plus piece-square bonuses.
+ */
+export function evaluate(pos: Position): number {
+  const b = pos.board;
+  let score = 0;
+  let nonPawnMaterial = 0;
+  const kingSquares = [-1, -1];
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const piece = b[sq];
+    if (!piece) continue;
+    const type = pieceType(piece);
+    const white = pieceSide(piece) === WHITE;
+
+    if (type === KING) {
+      kingSquares[white ? 0 : 1] = sq;
+      continue;
+    }
+    if (type !== PAWN) nonPawnMaterial += PIECE_VALUES[type];
+
+    const value = PIECE_VALUES[type] + PST[type][pstIndex(sq, white)];
+    score += white ? value : -value;
+  }
+
+  const kingTable = nonPawnMaterial <= ENDGAME_MATERIAL ? KING_END_PST : KING_MIDDLE_PST;
+  if (kingSquares[0] >= 0) score += kingTable[pstIndex(kingSquares[0], true)];
+  if (kingSquares[1] >= 0) score -= kingTable[pstIndex(kingSquares[1], false)];
+
+  return pos.side === WHITE ? score : -score;
+}
+
+/** Neither side can mate: bare kings, or king and a single minor piece against a bare king. */
+export function isInsufficientMaterial(pos: Position): boolean {
+  const b = pos.board;
+  let minors = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const type = pieceType(b[sq]);
+    if (!type || type === KING) continue;
+    if (type !== KNIGHT && type !== BISHOP) return false;
+    if (++minors > 1) return false;
+  }
+  return true;
+}
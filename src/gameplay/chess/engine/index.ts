@@ -0,0 +1,3 @@
+export * from "./board";
+export * from "./evaluate";
+export * from "./search";
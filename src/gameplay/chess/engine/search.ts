@@ -0,0 +1,256 @@
+import {
+  FLAG_CAPTURE,
+  generateMoves,
+  inCheck,
+  isRepetition,
+  makeMove,
+  moveFlags,
+  moveFrom,
+  movePromo,
+  moveTo,
+  pieceType,
+  unmakeMove,
+  type Position,
+} from "./board";
+import { evaluate, isInsufficientMaterial, PIECE_VALUES } from "./evaluate";
+
+export const MATE_SCORE = 100_000;
+const MAX_PLY = 64;
+const INF = MATE_SCORE + 1;
+
+/** Check the clock every this many nodes rather than on every node. */
+const TIME_CHECK_NODES = 1024;
+
+export type SearchLimits = {
+  /** Hard cap on iterative-deepening depth. */
+  maxDepth: number;
+  /** Wall-clock budget; the last fully searched depth wins when it runs out. */
+  timeMs: number;
+  /** Maximum random offset (centipawns) added to static evaluations, to weaken play. */
+  evalNoise?: number;
+  /** Varies the noise pattern between searches; the same seed gives the same noise. */
+  noiseSeed?: number;
+  now?: () => number;
+};
+
+export type SearchResult = {
+  /** 0 when the side to move has no legal moves. */
+  move: number;
+  /** Centipawns from the side to move's point of view. */
+  score: number;
+  depth: number;
+  nodes: number;
+};
+
+// Transposition table: a fixed-size array of entries indexed by the low hash bits,
+// verified with the high bits. Kept across searches so consecutive moves reuse it.
+const TT_BITS = 18;
+const TT_SIZE = 1 << TT_BITS;
+const TT_MASK = TT_SIZE - 1;
+const TT_EXACT = 1;
+const TT_LOWER = 2;
+const TT_UPPER = 3;
+
+const ttKey = new Int32Array(TT_SIZE);
+const ttMove = new Int32Array(TT_SIZE);
+const ttScore = new Int32Array(TT_SIZE);
+const ttDepth = new Int8Array(TT_SIZE);
+const ttFlag = new Int8Array(TT_SIZE);
+
+// Mate scores are stored relative to the node so they stay valid at other plies.
+function toTT(score: number, ply: number): number {
+  if (score > MATE_SCORE - MAX_PLY) return score + ply;
+  if (score < -MATE_SCORE + MAX_PLY) return score - ply;
+  return score;
+}
+function fromTT(score: number, ply: number): number {
+  if (score > MATE_SCORE - MAX_PLY) return score - ply;
+  if (score < -MATE_SCORE + MAX_PLY) return score + ply;
+  return score;
+}
+
+function storeTT(pos: Position, depth: number, flag: number, score: number, move: number, ply: number) {
+  const i = pos.hashLo & TT_MASK;
+  // Depth-preferred replacement, but always overwrite stale entries for other positions.
+  if (ttKey[i] === pos.hashHi && ttFlag[i] && ttDepth[i] > depth) return;
+  ttKey[i] = pos.hashHi;
+  ttMove[i] = move;
+  ttScore[i] = toTT(score, ply);
+  ttDepth[i] = depth;
+  ttFlag[i] = flag;
+}
+
+const MVV_LVA_BASE = 1_000_000;
+const KILLER_SCORE = 900_000;
+
+function mvvLva(pos: Position, m: number): number {
+  const victim = pos.board[moveTo(m)];
+  // En passant lands on an empty square but always takes a pawn.
+  const victimValue = victim ? PIECE_VALUES[pieceType(victim)] : PIECE_VALUES[1];
+  return victimValue * 10 - PIECE_VALUES[pieceType(pos.board[moveFrom(m)])] / 10;
+}
+
+// Noise depends only on the position and seed, so transpositions and re-searches stay consistent.
+function positionNoise(pos: Position, seed: number, amplitude: number): number {
+  let h = (pos.hashLo ^ seed) | 0;
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  h ^= h >>> 16;
+  return Math.round(((h >>> 0) / 0xffffffff) * 2 * amplitude - amplitude);
+}
+
+/**
+ * Alpha-beta search with iterative deepening, a transposition table,
+ * MVV-LVA / killer move ordering and a capture-only quiescence search.
+ */
+export function search(pos: Position, limits: SearchLimits): SearchResult {
+  const now = limits.now ?? (() => Date.now());
+  const deadline = now() + limits.timeMs;
+  const killers = Array.from({ length: MAX_PLY }, () => [0, 0]);
+  const noise = limits.evalNoise ?? 0;
+  const noiseSeed = limits.noiseSeed ?? 0;
+  // The table is shared between searches, so noisy scores must never reach it.
+  const useTT = !noise;
+  const staticEval = () => (noise ? evaluate(pos) + positionNoise(pos, noiseSeed, noise) : evaluate(pos));
+  let nodes = 0;
+  let stopped = false;
+  // The first iteration always completes so there is a move to play, however small the budget.
+  let canStop = false;
+
+  const timeUp = () => {
+    if ((++nodes & (TIME_CHECK_NODES - 1)) === 0 && canStop && now() >= deadline) stopped = true;
+    return stopped;
+  };
+
+  const orderMoves = (moves: number[], ttBest: number, ply: number) => {
+    const [k1, k2] = ply < MAX_PLY ? killers[ply] : [0, 0];
+    const scores = moves.map((m) => {
+      if (m === ttBest) return MVV_LVA_BASE * 10;
+      if (moveFlags(m) & FLAG_CAPTURE) return MVV_LVA_BASE + mvvLva(pos, m);
+      if (movePromo(m)) return MVV_LVA_BASE + PIECE_VALUES[movePromo(m)];
+      if (m === k1) return KILLER_SCORE;
+      if (m === k2) return KILLER_SCORE - 1;
+      return 0;
+    });
+    // Insertion sort: move lists are short and mostly need only the first few entries right.
+    for (let i = 1; i < moves.length; i++) {
+      const m = moves[i];
+      const s = scores[i];
+      let j = i - 1;
+      while (j >= 0 && scores[j] < s) {
+        moves[j + 1] = moves[j];
+        scores[j + 1] = scores[j];
+        j--;
+      }
+      moves[j + 1] = m;
+      scores[j + 1] = s;
+    }
+  };
+
+  const quiesce = (alpha: number, beta: number, ply: number): number => {
+    if (timeUp()) return 0;
+    const standPat = staticEval();
+    if (ply >= MAX_PLY - 1) return standPat;
+    if (standPat >= beta) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const moves: number[] = [];
+    generateMoves(pos, moves, true);
+    orderMoves(moves, 0, MAX_PLY);
+
+    for (const m of moves) {
+      if (!makeMove(pos, m)) continue;
+      const score = -quiesce(-beta, -alpha, ply + 1);
+      unmakeMove(pos);
+      if (stopped) return 0;
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  };
+
+  const negamax = (depth: number, alpha: number, beta: number, ply: number): number => {
+    if (timeUp()) return 0;
+    if (ply > 0 && (pos.halfmove >= 100 || isRepetition(pos) || isInsufficientMaterial(pos))) return 0;
+
+    const checked = inCheck(pos);
+    // Don't drop into quiescence while in check; mates there would be missed.
+    if (checked) depth++;
+    if (depth <= 0 || ply >= MAX_PLY - 1) return quiesce(alpha, beta, ply);
+
+    const alphaStart = alpha;
+    const i = pos.hashLo & TT_MASK;
+    let ttBest = 0;
+    if (ttFlag[i] && ttKey[i] === pos.hashHi) {
+      ttBest = ttMove[i];
+      if (useTT && ply > 0 && ttDepth[i] >= depth) {
+        const s = fromTT(ttScore[i], ply);
+        const flag = ttFlag[i];
+        if (flag === TT_EXACT) return s;
+        if (flag === TT_LOWER && s >= beta) return s;
+        if (flag === TT_UPPER && s <= alpha) return s;
+      }
+    }
+
+    // The table slot may have been overwritten; the root always starts from the last iteration's choice.
+    if (ply === 0 && result.move) ttBest = result.move;
+
+    const moves: number[] = [];
+    generateMoves(pos, moves);
+    orderMoves(moves, ttBest, ply);
+
+    let best = -INF;
+    let bestMove = 0;
+    let legal = 0;
+    for (const m of moves) {
+      if (!makeMove(pos, m)) continue;
+      legal++;
+      const score = -negamax(depth - 1, -beta, -alpha, ply + 1);
+      unmakeMove(pos);
+      if (stopped) return 0;
+
+      if (score > best) {
+        best = score;
+        bestMove = m;
+        if (ply === 0) rootBest = m;
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) {
+        if (!(moveFlags(m) & FLAG_CAPTURE) && !movePromo(m) && ply < MAX_PLY) {
+          const k = killers[ply];
+          if (k[0] !== m) {
+            k[1] = k[0];
+            k[0] = m;
+          }
+        }
+        break;
+      }
+    }
+
+    if (legal === 0) return checked ? -MATE_SCORE + ply : 0;
+
+    const flag = best <= alphaStart ? TT_UPPER : best >= beta ? TT_LOWER : TT_EXACT;
+    if (useTT) storeTT(pos, depth, flag, best, bestMove, ply);
+    return best;
+  };
+
+  let rootBest = 0;
+  let result: SearchResult = { move: 0, score: 0, depth: 0, nodes: 0 };
+
+  for (let depth = 1; depth <= limits.maxDepth && depth < MAX_PLY; depth++) {
+    rootBest = 0;
+    const score = negamax(depth, -INF, INF, 0);
+    if (stopped) {
+      // A partial iteration searches the previous best move first, so anything it found is at least as good.
+      if (rootBest && result.move) result = { ...result, move: rootBest };
+      break;
+    }
+    result = { move: rootBest, score, depth, nodes };
+    canStop = true;
+    // No legal moves, or a forced mate already found: deeper search won't change the answer.
+    if (!rootBest || Math.abs(score) > MATE_SCORE - MAX_PLY) break;
+  }
+
+  result.nodes = nodes;
+  return result;
+}
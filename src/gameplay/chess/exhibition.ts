@@ -0,0 +1,34 @@
+import type { ChessRoom } from "./game";
+import type { ExhibitionSettings } from "./types";
+
+/** Default pause between exhibition moves, so spectators can follow the game. */
+export const EXHIBITION_MOVE_DELAY_MS = 1500;
+/** Supported range; the lobby offers 0.5, 1.5, 3 and 6 s (assets/ui/index.html). */
+export const MIN_EXHIBITION_MOVE_DELAY_MS = 500;
+export const MAX_EXHIBITION_MOVE_DELAY_MS = 6_000;
+
+/** How long the end screen stays up before the next exhibition game starts. */
+export const EXHIBITION_RESTART_DELAY_MS = 10_000;
+
+/** Mid-strength by default: quick to compute, but games still look like chess. */
+const EXHIBITION_DEFAULT_LEVEL = 6;
+
+export function defaultExhibition(): ExhibitionSettings {
+  return {
+    levels: { w: EXHIBITION_DEFAULT_LEVEL, b: EXHIBITION_DEFAULT_LEVEL },
+    moveDelayMs: EXHIBITION_MOVE_DELAY_MS,
+  };
+}
+
+/** Read a move delay from UI input, clamped to the supported range. */
+export function parseMoveDelay(value: unknown): number | undefined {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return undefined;
+  return Math.min(MAX_EXHIBITION_MOVE_DELAY_MS, Math.max(MIN_EXHIBITION_MOVE_DELAY_MS, Math.round(n)));
+}
+
+/** Time left before a finished exhibition starts over; undefined when the room is not waiting to restart. */
+export function nextExhibitionGameInMs(room: ChessRoom, now = Date.now()): number | undefined {
+  if (room.selection.mode !== "exhibition" || room.status !== "ended" || room.endedAt === undefined) return undefined;
+  return Math.max(0, room.endedAt + EXHIBITION_RESTART_DELAY_MS - now);
+}
@@ -1,85 +1,451 @@
-import { Chess } from "chess.js";
-import type { Difficulty, LobbySelection, Mode, PlayerColor, UiState } from "./types";
-import { chooseAiMove } from "./ai";
+import { Chess, DEFAULT_POSITION, validateFen, type Move, type Square } from "chess.js";
+import type {
+  ColorChoice,
+  Difficulty,
+  LobbySelection,
+  OfferKind,
+  PlayerColor,
+  RoomStatus,
+  ProfileSummary,
+  QueueStatus,
+  TableSummary,
+  UiState,
+} from "./types";
+import {
+  clockSnapshot,
+  createClock,
+  FLAG_CHECK_INTERVAL_MS,
+  flaggedColor,
+  pressClock,
+  startClock,
+  stopClock,
+  type ChessClock,
+} from "./clock";
+import { bundledBook, recognizeOpening } from "./book";
+import { defaultExhibition, nextExhibitionGameInMs } from "./exhibition";
+import { DEFAULT_DIFFICULTY } from "./levels";
+import { parsePgn, pgnResult } from "./pgn";
+import { DEFAULT_PIECE_SET } from "../chess3d/piece-sets";
+import { gameEvents } from "../../core/events";
+import { createStateMachine, type StateMachine } from "../../core/state";
 
 export type Seat = {
   playerId: string;
   color: PlayerColor;
+  name?: string; // display name, used for PGN headers
 };
 
+export type MoveRecord = {
+  ply: number; // 1-based half-move index from the start position
+  color: PlayerColor;
+  san: string;
+  uci: string;
+  fen: string; // position after the move
+};
+
+/** How long a disconnected player's seat is held before the game is settled without them. */
+export const RECONNECT_GRACE_MS = 60_000;
+
+/** A player who leaves before both sides have made this many half-moves gets the game aborted, not lost. */
+export const ABORT_BEFORE_PLIES = 2;
+
+/** End reason for a game called off without a result (see `pgnResult`). */
+export const ABORTED_REASON = "aborted";
+
+/** Draw offers and takeback requests lapse after this many half-moves. */
+export const OFFER_TTL_PLIES = 4;
+
+export type PendingOffer = {
+  kind: OfferKind;
+  from: PlayerColor;
+  expiresAtPly: number; // history length at which the offer lapses
+};
+
+/**
+ * The computer's turn in flight. Its result only applies while this is still the room's
+ * current request; anything that changes the game (reset, rematch, takeback, end) clears it.
+ */
+export type AiRequest = {
+  id: number;
+  fen: string;
+  color: PlayerColor;
+  difficulty: Difficulty;
+  notBefore?: number; // exhibition pacing: the move is not played before this time
+};
+
+let nextAiRequestId = 1;
+
 export type ChessRoom = {
   id: string;
   selection: LobbySelection;
   seats: Partial<Record<PlayerColor, Seat>>;
   chess: Chess;
-  status: "lobby" | "playing" | "ended";
+  /** Current lifecycle state; change it through `lifecycle`, never directly. */
+  readonly status: RoomStatus;
+  readonly lifecycle: RoomLifecycle;
   winner?: PlayerColor;
   endReason?: string;
   lastMove?: string;
+  clock?: ChessClock;
+  startFen: string; // position the current game started from
+  history: MoveRecord[]; // every move since startFen
+  startedAt?: number;
+  endedAt?: number;
+  turnStartedAt?: number; // when the side to move got the move, for time spent per move
+  offer?: PendingOffer;
+  aiRequest?: AiRequest;
+  opening?: string; // most specific named opening the game has reached
+  away?: Partial<Record<PlayerColor, number>>; // disconnected seats held until this time
 };
 
 export function defaultSelection(): LobbySelection {
-  return { mode: "solo", difficulty: "easy" };
+  return { mode: "solo", difficulty: DEFAULT_DIFFICULTY, color: "w", exhibition: defaultExhibition(), timeControl: "untimed", pieceSet: DEFAULT_PIECE_SET };
 }
 
 export function createRoom(id: string): ChessRoom {
-  return {
+  let lifecycle: RoomLifecycle;
+  const room: ChessRoom = {
     id,
     selection: defaultSelection(),
     seats: {},
     chess: new Chess(),
-    status: "lobby",
+    get status() {
+      return lifecycle.getState();
+    },
+    get lifecycle() {
+      return lifecycle;
+    },
+    startFen: new Chess().fen(),
+    history: [],
   };
+  lifecycle = createRoomLifecycle(room);
+  return room;
+}
+
+export type RoomLifecycle = StateMachine<RoomStatus>;
+
+/**
+ * A room's lifecycle. The functions below (`startGame`, `endGame`, `backToLobby`, ...) set up the
+ * game data and then ask for the transition; the hooks do what every entry or exit needs.
+ * `update` runs on the world tick and polls live games for flag-fall and expired away seats.
+ */
+function createRoomLifecycle(room: ChessRoom): RoomLifecycle {
+  let sincePollMs = 0;
+  return createStateMachine<RoomStatus>({
+    initial: "lobby",
+    roomId: () => room.id,
+    states: [
+      { id: "lobby" },
+      {
+        id: "playing",
+        enter: (ctx) => {
+          sincePollMs = 0;
+          if (room.clock) startClock(room.clock, room.chess.turn(), room.startedAt ?? ctx.now());
+        },
+        exit: (ctx) => {
+          if (room.clock) stopClock(room.clock, room.endedAt ?? ctx.now());
+          room.offer = undefined;
+          room.aiRequest = undefined;
+          room.away = undefined;
+        },
+        update: (ctx, dt) => {
+          sincePollMs += dt * 1000;
+          if (sincePollMs < FLAG_CHECK_INTERVAL_MS) return;
+          sincePollMs = 0;
+          const now = ctx.now();
+          if (room.clock) maybeFinalize(room, now);
+          expireAwaySeats(room, now);
+        },
+      },
+      { id: "ended" },
+    ],
+    transitions: [
+      { from: "lobby", to: "playing", guard: () => seatsFilled(room) },
+      // An exhibition goes straight on to its next game.
+      { from: "ended", to: "playing", guard: () => room.selection.mode === "exhibition" && seatsFilled(room) },
+      { from: "playing", to: "ended" },
+      // Abandoned mid-game: an exhibition stopped, a solo player gone.
+      { from: "playing", to: "lobby" },
+      { from: "ended", to: "lobby" },
+    ],
+  });
 }
 
-export function assignSeat(room: ChessRoom, playerId: string): { ok: boolean; color?: PlayerColor; reason?: string } {
+/** Strength of the computer playing `color`: per seat in exhibition, the lobby's level otherwise. */
+export function aiLevel(room: ChessRoom, color: PlayerColor): Difficulty {
+  return room.selection.mode === "exhibition" ? room.selection.exhibition.levels[color] : room.selection.difficulty;
+}
+
+export function aiSeatName(room: ChessRoom, color: PlayerColor): string {
+  return `Computer (level ${aiLevel(room, color)})`;
+}
+
+function otherColor(color: PlayerColor): PlayerColor {
+  return color === "w" ? "b" : "w";
+}
+
+/** Color the computer plays in solo mode (the seat held by "AI"); White in exhibition. */
+export function aiColor(room: ChessRoom): PlayerColor | undefined {
+  if (room.seats.w?.playerId === "AI") return "w";
+  if (room.seats.b?.playerId === "AI") return "b";
+  return undefined;
+}
+
+// Castling flag -> the king and rook squares it needs.
+const CASTLING_SQUARES: Record<string, { color: PlayerColor; king: Square; rook: Square }> = {
+  K: { color: "w", king: "e1", rook: "h1" },
+  Q: { color: "w", king: "e1", rook: "a1" },
+  k: { color: "b", king: "e8", rook: "h8" },
+  q: { color: "b", king: "e8", rook: "a8" },
+};
+
+/**
+ * Check a custom starting FEN before it reaches the lobby selection.
+ * On top of chess.js' own validation, castling rights and the en-passant square
+ * must match the pieces on the board.
+ */
+export function validateStartFen(fen: string): { ok: true; fen: string } | { ok: false; reason: string } {
+  const text = fen.trim().replace(/\s+/g, " ");
+  const check = validateFen(text);
+  if (!check.ok) return { ok: false, reason: check.error ?? "Invalid FEN" };
+
+  const chess = new Chess(text);
+  const [, , castling, epSquare] = text.split(" ");
+
+  for (const flag of castling === "-" ? [] : castling.split("")) {
+    const need = CASTLING_SQUARES[flag];
+    const king = chess.get(need.king);
+    const rook = chess.get(need.rook);
+    if (king?.type !== "k" || king.color !== need.color || rook?.type !== "r" || rook.color !== need.color) {
+      return { ok: false, reason: `Invalid FEN: castling right "${flag}" does not match the king and rook positions` };
+    }
+  }
+
+  if (epSquare !== "-") {
+    // The pawn that just double-stepped sits one rank past the en-passant square.
+    const mover = otherColor(chess.turn());
+    const pawnSquare = `${epSquare[0]}${mover === "w" ? 4 : 5}` as Square;
+    const pawn = chess.get(pawnSquare);
+    if (pawn?.type !== "p" || pawn.color !== mover) {
+      return { ok: false, reason: `Invalid FEN: no pawn can have just passed en-passant square ${epSquare}` };
+    }
+  }
+
+  const waiting = otherColor(chess.turn());
+  const [king] = chess.findPiece({ type: "k", color: waiting });
+  if (king && chess.isAttacked(king, chess.turn())) {
+    return { ok: false, reason: "Invalid FEN: the side not to move is in check" };
+  }
+  if (chess.isGameOver()) return { ok: false, reason: "That position is already game over" };
+
+  return { ok: true, fen: chess.fen() };
+}
+
+/**
+ * Position the next game starts from: the end of an imported game,
+ * a custom FEN, or the standard start.
+ */
+export function setupFen(room: ChessRoom): string {
+  if (room.selection.pgn) {
+    const parsed = parsePgn(room.selection.pgn);
+    if (parsed.ok) {
+      const { moves, startFen } = parsed.game;
+      return moves.length ? moves[moves.length - 1].after : startFen;
+    }
+  }
+  return room.selection.fen ?? DEFAULT_POSITION;
+}
+
+/** Named opening the setup position is in (an imported game or custom FEN), if recognised. */
+export function setupOpening(room: ChessRoom): string | undefined {
+  if (room.selection.pgn) {
+    const parsed = parsePgn(room.selection.pgn);
+    if (parsed.ok) return recognizeOpening([parsed.game.startFen, ...parsed.game.moves.map((m) => m.after)]);
+  }
+  return room.selection.fen ? recognizeOpening([room.selection.fen]) : undefined;
+}
+
+/** Side to move in the setup position. The first seat always takes it. */
+export function startingTurn(room: ChessRoom): PlayerColor {
+  return setupFen(room).split(" ")[1] === "b" ? "b" : "w";
+}
+
+export function assignSeat(
+  room: ChessRoom,
+  playerId: string,
+  name?: string
+): { ok: boolean; color?: PlayerColor; reason?: string } {
   // If already seated, return existing.
   for (const c of ["w", "b"] as PlayerColor[]) {
     if (room.seats[c]?.playerId === playerId) return { ok: true, color: c };
   }
 
+  // The first seat plays the side to move (White from the standard start).
+  const first = startingTurn(room);
+  const second = otherColor(first);
+
+  if (room.selection.mode === "exhibition") {
+    seatComputers(room);
+    return { ok: false, reason: "Computers play at this table" };
+  }
+
   if (room.selection.mode === "solo") {
-    // Player is always white
-    if (room.seats.w && room.seats.w.playerId !== playerId) return { ok: false, reason: "Room already has a solo player." };
-    room.seats.w = { playerId, color: "w" };
-    room.seats.b = { playerId: "AI", color: "b" };
-    return { ok: true, color: "w" };
+    if (openSeatCount(room) === 0) return { ok: false, reason: "Room already has a solo player." };
+    // A random choice sits on the side to move for now; startGame settles it.
+    const human = room.selection.color === "random" ? first : room.selection.color;
+    room.seats[human] = { playerId, color: human, name };
+    room.seats[otherColor(human)] = { playerId: "AI", color: otherColor(human), name: aiSeatName(room, otherColor(human)) };
+    return { ok: true, color: human };
   }
 
-  // Duo: first is white, second is black.
-  if (!room.seats.w) {
-    room.seats.w = { playerId, color: "w" };
-    return { ok: true, color: "w" };
+  // Duo: first join takes the side to move, second the other.
+  if (!room.seats[first]) {
+    room.seats[first] = { playerId, color: first, name };
+    return { ok: true, color: first };
   }
-  if (!room.seats.b) {
-    room.seats.b = { playerId, color: "b" };
-    return { ok: true, color: "b" };
+  if (!room.seats[second]) {
+    room.seats[second] = { playerId, color: second, name };
+    return { ok: true, color: second };
   }
 
   return { ok: false, reason: "Room full" };
 }
 
-export function setLobbySelection(room: ChessRoom, selection: Partial<{ mode: Mode; difficulty: Difficulty }>) {
+/** Exhibition: both seats go to the computer. */
+function seatComputers(room: ChessRoom) {
+  for (const c of ["w", "b"] as PlayerColor[]) room.seats[c] = { playerId: "AI", color: c, name: aiSeatName(room, c) };
+}
+
+export function openSeatCount(room: ChessRoom): number {
+  if (room.selection.mode === "exhibition") return 0;
+  if (room.selection.mode === "solo") return room.seats.w || room.seats.b ? 0 : 1;
+  return (room.seats.w ? 0 : 1) + (room.seats.b ? 0 : 1);
+}
+
+/** Lobby changes; exhibition settings may be given in part. */
+export type LobbySelectionUpdate = Partial<Omit<LobbySelection, "exhibition">> & {
+  exhibition?: { levels?: Partial<Record<PlayerColor, Difficulty | undefined>>; moveDelayMs?: number };
+};
+
+export function setLobbySelection(room: ChessRoom, selection: LobbySelectionUpdate) {
   if (room.status !== "lobby") return;
   if (selection.mode) room.selection.mode = selection.mode;
   if (selection.difficulty) room.selection.difficulty = selection.difficulty;
+  if (selection.color) room.selection.color = selection.color;
+  if (selection.exhibition) {
+    const current = room.selection.exhibition;
+    const { levels, moveDelayMs } = selection.exhibition;
+    room.selection.exhibition = {
+      levels: { w: levels?.w ?? current.levels.w, b: levels?.b ?? current.levels.b },
+      moveDelayMs: moveDelayMs ?? current.moveDelayMs,
+    };
+  }
+  if (selection.timeControl) room.selection.timeControl = selection.timeControl;
+  if (selection.pieceSet) room.selection.pieceSet = selection.pieceSet;
+  // An empty string clears a previously imported game or custom position.
+  // The two are alternatives: setting one clears the other.
+  if (selection.pgn !== undefined) {
+    room.selection.pgn = selection.pgn || undefined;
+    if (room.selection.pgn) room.selection.fen = undefined;
+  }
+  if (selection.fen !== undefined) {
+    room.selection.fen = selection.fen || undefined;
+    if (room.selection.fen) room.selection.pgn = undefined;
+  }
 
   // If switching mode, clear seats
   room.seats = {};
+  if (room.selection.mode === "exhibition") seatComputers(room);
 }
 
-export function canStart(room: ChessRoom): boolean {
-  if (room.status !== "lobby") return false;
-  if (room.selection.mode === "solo") return !!room.seats.w;
+function seatsFilled(room: ChessRoom): boolean {
+  if (room.selection.mode === "solo") return openSeatCount(room) === 0;
   return !!room.seats.w && !!room.seats.b;
 }
 
-export function startGame(room: ChessRoom) {
+export function canStart(room: ChessRoom): boolean {
+  return room.status === "lobby" && room.lifecycle.canTransition("playing");
+}
+
+/** Settle a solo "random" color choice: maybe swap the player and the computer. */
+function resolveColorChoice(room: ChessRoom, choice: ColorChoice, random: () => number) {
+  if (room.selection.mode !== "solo" || choice !== "random" || random() < 0.5) return;
+  const { w, b } = room.seats;
+  if (!w || !b) return;
+  room.seats = { w: { ...b, color: "w" }, b: { ...w, color: "b" } };
+}
+
+function recordMove(room: ChessRoom, move: Move) {
+  const uci = move.from + move.to + (move.promotion ? move.promotion : "");
+  room.lastMove = uci;
+  room.history.push({ ply: room.history.length + 1, color: move.color, san: move.san, uci, fen: move.after });
+  room.opening = bundledBook().name(move.after) ?? room.opening;
+}
+
+/** End-screen exit: back to the lobby with a fresh board, same selection. */
+export function backToLobby(room: ChessRoom) {
+  room.lifecycle.transition("lobby");
+  clearGame(room);
+}
+
+/** Back to a fresh, unstarted board. Keeps seats and selection. */
+export function clearGame(room: ChessRoom) {
   room.chess = new Chess();
-  room.status = "playing";
   room.winner = undefined;
   room.endReason = undefined;
   room.lastMove = undefined;
+  room.clock = undefined;
+  room.startFen = room.chess.fen();
+  room.history = [];
+  room.startedAt = undefined;
+  room.endedAt = undefined;
+  room.turnStartedAt = undefined;
+  room.offer = undefined;
+  room.aiRequest = undefined;
+  room.opening = undefined;
+  room.away = undefined;
+}
+
+/** Start from the lobby, or an exhibition's next game from its end screen. False when the room cannot start. */
+export function startGame(room: ChessRoom, now = Date.now(), random = Math.random): boolean {
+  if (!room.lifecycle.canTransition("playing")) return false;
+  clearGame(room);
+  resolveColorChoice(room, room.selection.color, random);
+
+  // Continue from an imported game record when one was loaded in the lobby.
+  const imported = room.selection.pgn ? parsePgn(room.selection.pgn) : undefined;
+  if (imported?.ok) {
+    room.chess = new Chess(imported.game.startFen);
+    room.startFen = imported.game.startFen;
+    for (const m of imported.game.moves) recordMove(room, room.chess.move(m.san));
+  } else if (room.selection.fen) {
+    room.chess = new Chess(room.selection.fen);
+    room.startFen = room.chess.fen();
+  }
+  room.opening = recognizeOpening([room.startFen, ...room.history.map((m) => m.fen)]);
+
+  room.startedAt = now;
+  room.turnStartedAt = now;
+  room.clock = createClock(room.selection.timeControl);
+  room.lifecycle.transition("playing");
+  gameEvents.emitGame("chess.game.started", {
+    roomId: room.id,
+    mode: room.selection.mode,
+    timeControl: room.selection.timeControl,
+    ...seatSummary(room),
+    startPly: room.history.length,
+  });
+  maybeFinalize(room, now);
+  return true;
+}
+
+/** Who sits where, for events: player ids ("AI" for the computer) and the computer's levels. */
+function seatSummary(room: ChessRoom) {
+  const aiLevels: Partial<Record<PlayerColor, number>> = {};
+  for (const c of ["w", "b"] as PlayerColor[]) {
+    if (room.seats[c]?.playerId === "AI") aiLevels[c] = aiLevel(room, c);
+  }
+  return { white: room.seats.w?.playerId, black: room.seats.b?.playerId, aiLevels };
 }
 
 export type GameStatus = "playing" | "check" | "checkmate" | "stalemate" | "draw";
@@ -93,74 +459,356 @@ export function getStatus(room: ChessRoom): GameStatus {
   return "playing";
 }
 
-export function maybeFinalize(room: ChessRoom) {
-  const c = room.chess;
-  if (!c.isGameOver()) return;
+/**
+ * Whether `color` still has enough material to deliver mate by any legal sequence.
+ * Used to score flag-fall: running out of time against a side that cannot mate is a draw.
+ */
+function hasMatingMaterial(chess: Chess, color: PlayerColor): boolean {
+  const own: { type: string; light: boolean }[] = [];
+  const other: { type: string; light: boolean }[] = [];
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (!piece || piece.type === "k") continue;
+      const light = chess.squareColor(piece.square) === "light";
+      (piece.color === color ? own : other).push({ type: piece.type, light });
+    }
+  }
+
+  if (own.length === 0) return false;
+  if (own.some((p) => p.type === "p" || p.type === "r" || p.type === "q")) return true;
 
-  room.status = "ended";
+  // Bishops that all stand on one square colour never cover the other, however many there are.
+  const [minor] = own;
+  const bishopsOnOneColour = own.every((p) => p.type === "b" && p.light === minor.light);
+  if (own.length > 1 && !bishopsOnOneColour) return true;
 
-  if (c.isCheckmate()) {
-    const winner = c.turn() === "w" ? "b" : "w";
-    room.winner = winner;
-    room.endReason = "checkmate";
-    return;
+  // A lone minor piece (or such bishops) needs the opponent's own pieces to help build a mating net.
+  if (other.length === 0) return false;
+  if (minor.type === "b" && other.every((p) => p.type === "b" && p.light === minor.light)) return false;
+  return true;
+}
+
+export function maybeFinalize(room: ChessRoom, now = Date.now()) {
+  if (room.status !== "playing") return;
+  const flagged = room.clock ? flaggedColor(room.clock, now) : undefined;
+  if (!flagged && !room.chess.isGameOver()) return;
+
+  const { winner, reason } = flagged ? flagFallResult(room.chess, flagged) : gameOverResult(room.chess);
+  endGame(room, winner, reason, now);
+}
+
+function flagFallResult(c: Chess, flagged: PlayerColor): { winner?: PlayerColor; reason: string } {
+  const opponent = otherColor(flagged);
+  if (!hasMatingMaterial(c, opponent)) return { reason: "timeout vs insufficient material" };
+  return { winner: opponent, reason: "timeout" };
+}
+
+/** Result of a game chess.js considers over. */
+function gameOverResult(c: Chess): { winner?: PlayerColor; reason: string } {
+  if (c.isCheckmate()) return { winner: otherColor(c.turn()), reason: "checkmate" };
+  if (c.isStalemate()) return { reason: "stalemate" };
+  if (c.isInsufficientMaterial()) return { reason: "insufficient material" };
+  if (c.isThreefoldRepetition()) return { reason: "threefold repetition" };
+  return { reason: "draw" };
+}
+
+/** End the game for a reason chess.js cannot see (resignation, agreement, disconnect). */
+export function endGame(room: ChessRoom, winner: PlayerColor | undefined, reason: string, now = Date.now()) {
+  if (room.status !== "playing") return;
+  room.endedAt = now;
+  room.winner = winner;
+  room.endReason = reason;
+  room.lifecycle.transition("ended");
+  gameEvents.emitGame("chess.game.ended", {
+    roomId: room.id,
+    mode: room.selection.mode,
+    result: pgnResult(room),
+    winner,
+    reason,
+    plies: room.history.length,
+    durationMs: now - (room.startedAt ?? now),
+    ...seatSummary(room),
+  });
+}
+
+/**
+ * Hold a disconnected player's seat for `RECONNECT_GRACE_MS`. The game (and any clock) carries on;
+ * `expireAwaySeats` settles it if they are not back in time. Returns the held color.
+ */
+export function markAway(room: ChessRoom, playerId: string, now = Date.now()): PlayerColor | undefined {
+  const color = seatColorOf(room, playerId);
+  if (room.status !== "playing" || !color) return undefined;
+  room.away = { ...room.away, [color]: now + RECONNECT_GRACE_MS };
+  return color;
+}
+
+/** The player is back in time: release the hold on their seat. Returns their color. */
+export function markBack(room: ChessRoom, playerId: string): PlayerColor | undefined {
+  const color = seatColorOf(room, playerId);
+  if (!color || room.away?.[color] === undefined) return undefined;
+  delete room.away[color];
+  return color;
+}
+
+/** Time left (ms) for each disconnected side to come back. */
+export function awayCountdown(room: ChessRoom, now = Date.now()): Partial<Record<PlayerColor, number>> | undefined {
+  if (!room.away) return undefined;
+  const left: Partial<Record<PlayerColor, number>> = {};
+  for (const c of ["w", "b"] as PlayerColor[]) {
+    const until = room.away[c];
+    if (until !== undefined) left[c] = Math.max(0, until - now);
   }
+  return Object.keys(left).length ? left : undefined;
+}
+
+/**
+ * Settle the game for a player who did not come back in time. Early in the game, or when both
+ * players are gone, it is aborted; otherwise the player still at the board wins.
+ * Returns true when this ended the game.
+ */
+export function expireAwaySeats(room: ChessRoom, now = Date.now()): boolean {
+  if (room.status !== "playing" || !room.away) return false;
+  const gone = (["w", "b"] as PlayerColor[]).find((c) => (room.away?.[c] ?? Infinity) <= now);
+  if (!gone) return false;
+
+  const opponent = otherColor(gone);
+  const bothGone = room.away[opponent] !== undefined;
+  if (bothGone || room.history.length < ABORT_BEFORE_PLIES) endGame(room, undefined, ABORTED_REASON, now);
+  else endGame(room, opponent, "abandonment", now);
+  return true;
+}
 
-  if (c.isStalemate()) {
-    room.endReason = "stalemate";
-    return;
+export function seatColorOf(room: ChessRoom, playerId: string): PlayerColor | undefined {
+  if (room.seats.w?.playerId === playerId) return "w";
+  if (room.seats.b?.playerId === playerId) return "b";
+  return undefined;
+}
+
+/** The pending offer, if it has not lapsed yet. */
+export function activeOffer(room: ChessRoom): PendingOffer | undefined {
+  if (room.offer && room.history.length >= room.offer.expiresAtPly) room.offer = undefined;
+  return room.offer;
+}
+
+export function resign(room: ChessRoom, playerId: string, now = Date.now()): { ok: boolean; reason?: string } {
+  if (room.status !== "playing") return { ok: false, reason: "Not playing" };
+  const color = seatColorOf(room, playerId);
+  if (!color) return { ok: false, reason: "You are not seated" };
+  endGame(room, otherColor(color), "resignation", now);
+  return { ok: true };
+}
+
+/** Undo moves until it is `requester`'s turn again, with their last move taken back. */
+function takeBack(room: ChessRoom, requester: PlayerColor, now: number) {
+  const plies = room.chess.turn() === requester ? 2 : 1;
+  for (let i = 0; i < plies && room.history.length; i++) {
+    if (!room.chess.undo()) break;
+    room.history.pop();
   }
+  room.lastMove = room.history[room.history.length - 1]?.uci;
+  room.aiRequest = undefined;
+  room.opening = recognizeOpening([room.startFen, ...room.history.map((m) => m.fen)]);
+  room.turnStartedAt = now;
 
-  if (c.isInsufficientMaterial()) {
-    room.endReason = "insufficient material";
-    return;
+  // Time already used is not refunded; the clock just follows the side to move.
+  if (room.clock?.running) {
+    stopClock(room.clock, now);
+    startClock(room.clock, room.chess.turn(), now);
   }
+}
 
-  if (c.isThreefoldRepetition()) {
-    room.endReason = "threefold repetition";
-    return;
+function resolveOffer(room: ChessRoom, offer: PendingOffer, accept: boolean, now: number) {
+  room.offer = undefined;
+  if (!accept) return;
+  if (offer.kind === "draw") endGame(room, undefined, "agreement", now);
+  else takeBack(room, offer.from, now);
+}
+
+/**
+ * Offer a draw or request a takeback. Offering what the opponent has already offered accepts it.
+ * In solo mode the computer grants takebacks straight away; draw offers stay pending until
+ * its evaluation comes back (see `offerAwaitingAi`).
+ */
+export function makeOffer(
+  room: ChessRoom,
+  playerId: string,
+  kind: OfferKind,
+  now = Date.now()
+): { ok: boolean; reason?: string; answered?: boolean; accepted?: boolean } {
+  if (room.status !== "playing") return { ok: false, reason: "Not playing" };
+  const color = seatColorOf(room, playerId);
+  if (!color) return { ok: false, reason: "You are not seated" };
+
+  const pending = activeOffer(room);
+  if (pending?.kind === kind && pending.from !== color) {
+    resolveOffer(room, pending, true, now);
+    return { ok: true, answered: true, accepted: true };
+  }
+  if (pending) return { ok: false, reason: `A ${pending.kind} offer is already pending` };
+
+  if (kind === "takeback" && !room.history.some((m) => m.color === color)) {
+    return { ok: false, reason: "Nothing to take back" };
   }
 
-  if (c.isDraw()) {
-    room.endReason = "draw";
+  const offer: PendingOffer = { kind, from: color, expiresAtPly: room.history.length + OFFER_TTL_PLIES };
+  room.offer = offer;
+
+  const ai = aiColor(room);
+  if (room.selection.mode === "solo" && ai && ai !== color && kind === "takeback") {
+    resolveOffer(room, offer, true, now);
+    return { ok: true, answered: true, accepted: true };
   }
+
+  return { ok: true };
 }
 
-export function applyMove(room: ChessRoom, playerId: string, uci: string): { ok: boolean; reason?: string } {
+/** A pending offer the computer still has to answer, if any. */
+export function offerAwaitingAi(room: ChessRoom): PendingOffer | undefined {
+  const offer = activeOffer(room);
+  const ai = aiColor(room);
+  if (room.selection.mode !== "solo" || room.status !== "playing" || !offer || !ai) return undefined;
+  return offer.from !== ai ? offer : undefined;
+}
+
+/** Accept or decline the opponent's pending offer of the given kind. */
+export function answerOffer(
+  room: ChessRoom,
+  playerId: string,
+  kind: OfferKind,
+  accept: boolean,
+  now = Date.now()
+): { ok: boolean; reason?: string } {
   if (room.status !== "playing") return { ok: false, reason: "Not playing" };
+  const color = seatColorOf(room, playerId);
+  if (!color) return { ok: false, reason: "You are not seated" };
+
+  const pending = activeOffer(room);
+  if (!pending || pending.kind !== kind || pending.from === color) {
+    return { ok: false, reason: `No ${kind} offer to answer` };
+  }
+
+  resolveOffer(room, pending, accept, now);
+  return { ok: true };
+}
+
+function tryChessMove(chess: Chess, uci: string) {
   const from = uci.slice(0, 2);
   const to = uci.slice(2, 4);
   const promotion = uci.slice(4, 5) || undefined;
+  try {
+    return chess.move({ from, to, promotion });
+  } catch {
+    // chess.js 1.x throws on illegal moves.
+    return null;
+  }
+}
+
+export function applyMove(room: ChessRoom, playerId: string, uci: string, now = Date.now()): { ok: boolean; reason?: string } {
+  if (room.status !== "playing") return { ok: false, reason: "Not playing" };
+
+  // A flag that fell between polls blocks the move; the flag poll finalizes the game.
+  if (room.clock && flaggedColor(room.clock, now)) return { ok: false, reason: "Out of time" };
 
   const turn: PlayerColor = room.chess.turn();
   const seat = room.seats[turn];
   if (!seat || seat.playerId !== playerId) return { ok: false, reason: "Not your turn" };
 
-  const move = room.chess.move({ from, to, promotion } as any);
+  const move = tryChessMove(room.chess, uci);
   if (!move) return { ok: false, reason: "Illegal move" };
 
-  room.lastMove = move.from + move.to + (move.promotion ? move.promotion : "");
-  maybeFinalize(room);
-
-  // If solo mode and game not over, let AI respond.
-  if (room.selection.mode === "solo" && room.status === "playing") {
-    const aiMove = chooseAiMove(room.chess.fen(), "b", room.selection.difficulty);
-    if (aiMove) {
-      const aFrom = aiMove.slice(0, 2);
-      const aTo = aiMove.slice(2, 4);
-      const aPromo = aiMove.slice(4, 5) || undefined;
-      const moved = room.chess.move({ from: aFrom, to: aTo, promotion: aPromo } as any);
-      if (moved) {
-        room.lastMove = moved.from + moved.to + (moved.promotion ? moved.promotion : "");
-        maybeFinalize(room);
-      }
-    }
+  playMove(room, playerId, move, now);
+  return { ok: true };
+}
+
+/** Record a move just made on the board, report it, and settle the game if it is over. */
+function playMove(room: ChessRoom, playerId: string, move: Move, now: number, aiThinkMs?: number) {
+  recordMove(room, move);
+  if (room.clock) pressClock(room.clock, now);
+
+  const record = room.history[room.history.length - 1];
+  gameEvents.emitGame("chess.move.made", {
+    roomId: room.id,
+    playerId,
+    color: move.color,
+    ply: record.ply,
+    san: move.san,
+    uci: record.uci,
+    spentMs: now - (room.turnStartedAt ?? now),
+    aiThinkMs,
+  });
+  room.turnStartedAt = now;
+  if (room.chess.isCheck()) {
+    gameEvents.emitGame("chess.check", {
+      roomId: room.id,
+      color: room.chess.turn(),
+      ply: record.ply,
+      mate: room.chess.isCheckmate(),
+    });
   }
 
+  maybeFinalize(room, now);
+}
+
+/**
+ * Start the computer's turn if it is to move and not already thinking.
+ * The caller runs the search (off the main thread) and hands the result to `applyAiMove`,
+ * waiting until `notBefore` when the request has one.
+ */
+export function beginAiTurn(room: ChessRoom, now = Date.now()): AiRequest | undefined {
+  if (room.status !== "playing" || room.aiRequest) return undefined;
+  const turn = room.chess.turn();
+  if (room.seats[turn]?.playerId !== "AI") return undefined;
+
+  const { mode, exhibition } = room.selection;
+  room.aiRequest = {
+    id: nextAiRequestId++,
+    fen: room.chess.fen(),
+    color: turn,
+    difficulty: aiLevel(room, turn),
+    notBefore: mode === "exhibition" ? now + exhibition.moveDelayMs : undefined,
+  };
+  return room.aiRequest;
+}
+
+/**
+ * Play the computer's move for `requestId`. Results for a request that is no longer current are dropped.
+ * `thinkMs` is how long the search took, reported with the move.
+ */
+export function applyAiMove(
+  room: ChessRoom,
+  requestId: number,
+  uci: string | null,
+  now = Date.now(),
+  thinkMs?: number
+): { ok: boolean; reason?: string } {
+  const request = room.aiRequest;
+  if (!request || request.id !== requestId) return { ok: false, reason: "Stale AI result" };
+  room.aiRequest = undefined;
+
+  if (room.status !== "playing" || room.chess.fen() !== request.fen) return { ok: false, reason: "Stale AI result" };
+  if (room.clock && flaggedColor(room.clock, now)) return { ok: false, reason: "Out of time" };
+
+  const move = uci ? tryChessMove(room.chess, uci) : null;
+  if (!move) return { ok: false, reason: "AI found no move" };
+
+  playMove(room, "AI", move, now, thinkMs);
   return { ok: true };
 }
 
-export function buildUiStateFor(room: ChessRoom, yourColor: PlayerColor): UiState {
+function offerView(room: ChessRoom) {
+  const offer = activeOffer(room);
+  return offer ? { kind: offer.kind, from: offer.from } : undefined;
+}
+
+/**
+ * Build the UI state for one viewer. `yourColor` is omitted for spectators.
+ */
+export function buildUiStateFor(
+  room: ChessRoom,
+  yourColor: PlayerColor | undefined,
+  view: { now?: number; tables?: TableSummary[]; spectators?: number; profile?: ProfileSummary; queue?: QueueStatus } = {}
+): UiState {
+  const now = view.now ?? Date.now();
   if (room.status === "lobby") {
     const waitingForOpponent = room.selection.mode === "duo" && !(room.seats.w && room.seats.b);
     return {
@@ -168,7 +816,18 @@ export function buildUiStateFor(room: ChessRoom, yourColor: PlayerColor): UiStat
       lobby: {
         mode: room.selection.mode,
         difficulty: room.selection.difficulty,
+        color: room.selection.color,
+        exhibition: room.selection.exhibition,
+        timeControl: room.selection.timeControl,
+        pieceSet: room.selection.pieceSet,
         waitingForOpponent,
+        roomId: room.id,
+        tables: view.tables ?? [],
+        hasImportedGame: !!room.selection.pgn,
+        opening: setupOpening(room),
+        fen: room.selection.fen,
+        profile: view.profile,
+        queue: view.queue,
       },
     };
   }
@@ -182,6 +841,7 @@ export function buildUiStateFor(room: ChessRoom, yourColor: PlayerColor): UiStat
       end: {
         result,
         reason: room.endReason ?? "game over",
+        nextGameInMs: nextExhibitionGameInMs(room, now),
       },
     };
   }
@@ -192,10 +852,20 @@ export function buildUiStateFor(room: ChessRoom, yourColor: PlayerColor): UiStat
     game: {
       fen: room.chess.fen(),
       turn: room.chess.turn(),
+      mode: room.selection.mode,
+      role: yourColor ? "player" : "spectator",
       yourColor,
+      orientation: yourColor ?? "w",
+      moves: room.history.map((m) => m.san),
+      spectators: view.spectators ?? 0,
       status,
       winner: room.winner,
       lastMove: room.lastMove,
+      clock: room.clock ? clockSnapshot(room.clock, now) : undefined,
+      offer: offerView(room),
+      awayMs: awayCountdown(room, now),
+      opening: room.opening,
+      thinking: !!room.aiRequest,
     },
   };
 }
@@ -0,0 +1,47 @@
+import type { Difficulty } from "./types";
+
+/**
+ * What one strength level does. Lower levels search less, make deliberate inaccuracies
+ * more often and see the position through a noisier evaluation.
+ */
+export type AiLevelSpec = {
+  /** Nominal rating shown in the lobby; `tools/ai-ladder.ts` measures the real spacing. */
+  rating: number;
+  maxDepth: number;
+  timeMs: number;
+  /** Chance per move of playing a worse move on purpose. */
+  inaccuracyChance: number;
+  /** How much worse (centipawns) a deliberate inaccuracy may be than the best move. */
+  inaccuracyMarginCp: number;
+  /** Maximum random offset (centipawns) added to every static evaluation. */
+  evalNoiseCp: number;
+  /** The opening book is consulted until this many half-moves into the game. */
+  bookPlies: number;
+};
+
+export const AI_LEVELS: Record<Difficulty, AiLevelSpec> = {
+  1: { rating: 600, maxDepth: 1, timeMs: 50, inaccuracyChance: 0.5, inaccuracyMarginCp: 500, evalNoiseCp: 120, bookPlies: 2 },
+  2: { rating: 800, maxDepth: 1, timeMs: 50, inaccuracyChance: 0.35, inaccuracyMarginCp: 350, evalNoiseCp: 90, bookPlies: 4 },
+  3: { rating: 1000, maxDepth: 2, timeMs: 100, inaccuracyChance: 0.25, inaccuracyMarginCp: 250, evalNoiseCp: 70, bookPlies: 6 },
+  4: { rating: 1200, maxDepth: 2, timeMs: 150, inaccuracyChance: 0.15, inaccuracyMarginCp: 180, evalNoiseCp: 50, bookPlies: 8 },
+  5: { rating: 1400, maxDepth: 3, timeMs: 200, inaccuracyChance: 0.1, inaccuracyMarginCp: 120, evalNoiseCp: 35, bookPlies: 10 },
+  6: { rating: 1600, maxDepth: 4, timeMs: 300, inaccuracyChance: 0.06, inaccuracyMarginCp: 80, evalNoiseCp: 25, bookPlies: 12 },
+  7: { rating: 1800, maxDepth: 5, timeMs: 500, inaccuracyChance: 0.03, inaccuracyMarginCp: 50, evalNoiseCp: 15, bookPlies: 14 },
+  8: { rating: 2000, maxDepth: 6, timeMs: 700, inaccuracyChance: 0.01, inaccuracyMarginCp: 30, evalNoiseCp: 8, bookPlies: 16 },
+  9: { rating: 2100, maxDepth: 8, timeMs: 1000, inaccuracyChance: 0, inaccuracyMarginCp: 0, evalNoiseCp: 0, bookPlies: 20 },
+  10: { rating: 2200, maxDepth: 32, timeMs: 1500, inaccuracyChance: 0, inaccuracyMarginCp: 0, evalNoiseCp: 0, bookPlies: 24 },
+};
+
+export const MIN_DIFFICULTY: Difficulty = 1;
+export const MAX_DIFFICULTY: Difficulty = 10;
+export const DEFAULT_DIFFICULTY: Difficulty = 3;
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === "number" && Number.isInteger(value) && value >= MIN_DIFFICULTY && value <= MAX_DIFFICULTY;
+}
+
+/** Read a level from UI input, which may arrive as a number or a numeric string. */
+export function parseDifficulty(value: unknown): Difficulty | undefined {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  return isDifficulty(n) ? n : undefined;
+}
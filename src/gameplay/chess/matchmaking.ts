@@ -0,0 +1,130 @@
+import { createRoom, setLobbySelection, type ChessRoom } from "./game";
+import type { PlayerColor, QueueStatus, TimeControlId } from "./types";
+
+/** How often the server tries to pair queued players. */
+export const MATCHMAKING_INTERVAL_MS = 1000;
+
+/** Rating gap accepted straight away, how fast it widens while waiting, and where it stops. */
+export const RATING_WINDOW_START = 100;
+export const RATING_WINDOW_STEP = 50;
+export const RATING_WINDOW_STEP_MS = 5000;
+export const RATING_WINDOW_MAX = 800;
+
+export type QueueEntry = {
+  playerId: string;
+  name?: string;
+  rating: number;
+  /** Acceptable time controls, most preferred first. */
+  timeControls: TimeControlId[];
+  joinedAt: number;
+};
+
+export type Pairing = {
+  white: QueueEntry;
+  black: QueueEntry;
+  timeControl: TimeControlId;
+};
+
+export interface Matchmaker {
+  /**
+   * Join the queue, or update an existing entry (keeping its place and waiting time).
+   * Pass `joinedAt` to put a player back with the waiting time they already had.
+   */
+  enqueue: (entry: Omit<QueueEntry, "joinedAt"> & { joinedAt?: number }) => void;
+  cancel: (playerId: string) => boolean;
+  has: (playerId: string) => boolean;
+  status: (playerId: string) => QueueStatus | undefined;
+  /** Take every pair that can be matched now out of the queue. */
+  pair: () => Pairing[];
+}
+
+/** Rating gap a player accepts after waiting `waitedMs`. */
+export function ratingWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / RATING_WINDOW_STEP_MS);
+  return Math.min(RATING_WINDOW_MAX, RATING_WINDOW_START + steps * RATING_WINDOW_STEP);
+}
+
+/** The first of `a`'s preferences that `b` also accepts. */
+function commonTimeControl(a: QueueEntry, b: QueueEntry): TimeControlId | undefined {
+  return a.timeControls.find((tc) => b.timeControls.includes(tc));
+}
+
+/**
+ * Rating-window matchmaking. Players who have waited longest are paired first, each with the
+ * closest-rated compatible opponent. Two players are compatible when they share a time control
+ * and their rating gap fits inside both of their (widening) windows.
+ */
+export function createMatchmaker(params: { now?: () => number; random?: () => number } = {}): Matchmaker {
+  const now = params.now ?? (() => Date.now());
+  const random = params.random ?? Math.random;
+  const queue = new Map<string, QueueEntry>();
+
+  const enqueue = (entry: Omit<QueueEntry, "joinedAt"> & { joinedAt?: number }) => {
+    const joinedAt = queue.get(entry.playerId)?.joinedAt ?? entry.joinedAt ?? now();
+    queue.set(entry.playerId, { ...entry, joinedAt });
+  };
+
+  const cancel = (playerId: string) => queue.delete(playerId);
+
+  const has = (playerId: string) => queue.has(playerId);
+
+  const status = (playerId: string): QueueStatus | undefined => {
+    const entry = queue.get(playerId);
+    if (!entry) return undefined;
+    const waitingMs = now() - entry.joinedAt;
+    return {
+      waitingMs,
+      ratingWindow: ratingWindow(waitingMs),
+      timeControls: [...entry.timeControls],
+      playersQueued: queue.size,
+    };
+  };
+
+  const pair = (): Pairing[] => {
+    const t = now();
+    const waiting = [...queue.values()].sort((a, b) => a.joinedAt - b.joinedAt);
+    const taken = new Set<string>();
+    const pairings: Pairing[] = [];
+
+    for (const a of waiting) {
+      if (taken.has(a.playerId)) continue;
+      const windowA = ratingWindow(t - a.joinedAt);
+
+      let best: { entry: QueueEntry; gap: number; timeControl: TimeControlId } | undefined;
+      for (const b of waiting) {
+        if (b === a || taken.has(b.playerId)) continue;
+        const gap = Math.abs(a.rating - b.rating);
+        if (gap > windowA || gap > ratingWindow(t - b.joinedAt)) continue;
+        const timeControl = commonTimeControl(a, b);
+        if (!timeControl) continue;
+        if (!best || gap < best.gap) best = { entry: b, gap, timeControl };
+      }
+      if (!best) continue;
+
+      taken.add(a.playerId);
+      taken.add(best.entry.playerId);
+      queue.delete(a.playerId);
+      queue.delete(best.entry.playerId);
+      const aWhite = random() < 0.5;
+      pairings.push({
+        white: aWhite ? a : best.entry,
+        black: aWhite ? best.entry : a,
+        timeControl: best.timeControl,
+      });
+    }
+    return pairings;
+  };
+
+  return { enqueue, cancel, has, status, pair };
+}
+
+/** A fresh duo room for a pairing, both players already seated. */
+export function createMatchRoom(id: string, pairing: Pairing): ChessRoom {
+  const room = createRoom(id);
+  setLobbySelection(room, { mode: "duo", timeControl: pairing.timeControl });
+  for (const color of ["w", "b"] as PlayerColor[]) {
+    const entry = color === "w" ? pairing.white : pairing.black;
+    room.seats[color] = { playerId: entry.playerId, color, name: entry.name };
+  }
+  return room;
+}
@@ -0,0 +1,95 @@
+import { Chess, DEFAULT_POSITION, type Move } from "chess.js";
+import { ABORTED_REASON, type ChessRoom } from "./game";
+import { TIME_CONTROLS } from "./clock";
+
+/** Reject anything larger than a long tournament game before handing it to chess.js. */
+export const MAX_PGN_LENGTH = 20_000;
+
+const SITE = "HYTOPIA";
+
+export type ParsedPgn = {
+  startFen: string;
+  moves: Move[];
+  headers: Record<string, string>;
+};
+
+export function parsePgn(pgn: string): { ok: true; game: ParsedPgn } | { ok: false; reason: string } {
+  const text = pgn.trim();
+  if (!text) return { ok: false, reason: "PGN is empty" };
+  if (text.length > MAX_PGN_LENGTH) return { ok: false, reason: "PGN is too long" };
+
+  const chess = new Chess();
+  try {
+    chess.loadPgn(text);
+  } catch (err) {
+    return { ok: false, reason: `Invalid PGN: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const headers = chess.getHeaders();
+  return {
+    ok: true,
+    game: {
+      startFen: headers.FEN ?? DEFAULT_POSITION,
+      moves: chess.history({ verbose: true }),
+      headers,
+    },
+  };
+}
+
+/** PGN result token for the room's current state. */
+export function pgnResult(room: ChessRoom): string {
+  if (room.status !== "ended") return "*";
+  if (room.winner === "w") return "1-0";
+  if (room.winner === "b") return "0-1";
+  // A game aborted without a winner has no result.
+  if (room.endReason === ABORTED_REASON) return "*";
+  return "1/2-1/2";
+}
+
+function pgnDate(ms: number | undefined): string {
+  if (ms === undefined) return "????.??.??";
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getUTCFullYear()}.${pad(d.getUTCMonth() + 1)}.${pad(d.getUTCDate())}`;
+}
+
+function pgnTimeControl(room: ChessRoom): string {
+  const control = TIME_CONTROLS[room.selection.timeControl];
+  if (!control) return "-";
+  const base = Math.round(control.baseMs / 1000);
+  const extra = Math.round((control.incrementMs || control.delayMs) / 1000);
+  return extra ? `${base}+${extra}` : String(base);
+}
+
+/**
+ * Export the room's game as PGN with the Seven Tag Roster plus a few descriptive tags.
+ */
+export function exportPgn(room: ChessRoom): string {
+  const chess = new Chess(room.startFen);
+  for (const record of room.history) chess.move(record.san);
+
+  const solo = room.selection.mode === "solo";
+  const exhibition = room.selection.mode === "exhibition";
+  const { levels } = room.selection.exhibition;
+  let event = "HYTOPIA Chess";
+  if (solo) event = `HYTOPIA Chess vs computer (level ${room.selection.difficulty})`;
+  if (exhibition) event = `HYTOPIA Chess exhibition (level ${levels.w} vs level ${levels.b})`;
+  chess.setHeader("Event", event);
+  chess.setHeader("Site", SITE);
+  chess.setHeader("Date", pgnDate(room.startedAt));
+  chess.setHeader("Round", "-");
+  chess.setHeader("White", room.seats.w?.name ?? "?");
+  chess.setHeader("Black", room.seats.b?.name ?? "?");
+  chess.setHeader("Result", pgnResult(room));
+
+  chess.setHeader("Mode", room.selection.mode);
+  if (solo) chess.setHeader("Difficulty", String(room.selection.difficulty));
+  chess.setHeader("TimeControl", pgnTimeControl(room));
+  if (room.endReason) chess.setHeader("Termination", room.endReason);
+  if (room.startFen !== DEFAULT_POSITION) {
+    chess.setHeader("SetUp", "1");
+    chess.setHeader("FEN", room.startFen);
+  }
+
+  return chess.pgn();
+}
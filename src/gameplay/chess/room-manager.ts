@@ -0,0 +1,231 @@
+import type { Player, World } from "hytopia";
+
+import { gameEvents } from "../../core/events";
+import { BOARD_FOOTPRINT, buildBoard3D, destroyBoard3D, syncPiecesToFen, type Board3D } from "../chess3d/board3d";
+import { assignSeat, createRoom, openSeatCount, seatColorOf, type ChessRoom } from "./game";
+import type { PlayerColor, TableSummary } from "./types";
+
+/** Hard cap on concurrent tables per server. */
+export const MAX_TABLES = 16;
+
+/** How long an empty table survives before it is garbage-collected. */
+export const TABLE_IDLE_TTL_MS = 60_000;
+export const TABLE_GC_INTERVAL_MS = 10_000;
+
+// Tables are laid out on a grid, with a small gap between neighbouring floors.
+const GRID_COLUMNS = 4;
+const TABLE_SPACING = BOARD_FOOTPRINT + 3;
+// Slot 0 sits near world origin so it is easy to find from default spawns.
+const FIRST_ORIGIN = { x: -4, y: 1, z: -4 };
+const MAIN_ROOM_ID = "main";
+
+/**
+ * A room plus everything the server keeps per table: its 3D board and seat bookkeeping.
+ * Everyone at the table is in `players`; only seated players have an entry in `colors`,
+ * the rest are spectators.
+ */
+export type ChessTable = {
+  room: ChessRoom;
+  board: Board3D;
+  slot: number;
+  players: Map<string, Player>;
+  colors: Map<string, PlayerColor>;
+  emptySince?: number;
+};
+
+export interface RoomManager {
+  /** Open a table in a free slot; `makeRoom` supplies a prepared room (e.g. a matchmade game). */
+  create: (makeRoom?: (roomId: string) => ChessRoom) => ChessTable | undefined;
+  get: (roomId: string) => ChessTable | undefined;
+  list: () => ChessTable[];
+  summaries: () => TableSummary[];
+  tableOf: (playerId: string) => ChessTable | undefined;
+  /** First table in the lobby with a free seat, if any. */
+  findOpen: () => ChessTable | undefined;
+  /** The table holding a seat for a disconnected player, if their game is still on. */
+  findHeldSeat: (playerId: string) => ChessTable | undefined;
+  join: (table: ChessTable, player: Player) => { ok: boolean; color?: PlayerColor; reason?: string };
+  /** Join a table as a spectator, whatever its status. */
+  watch: (table: ChessTable, player: Player) => void;
+  /** Remove a player from whatever table they are at. Returns that table. */
+  leave: (playerId: string) => ChessTable | undefined;
+  /** Destroy tables that have been empty for longer than the idle TTL. Returns removed room ids. */
+  collectGarbage: () => string[];
+}
+
+export function spectatorCount(table: ChessTable): number {
+  let count = 0;
+  for (const playerId of table.players.keys()) {
+    if (!table.colors.has(playerId)) count++;
+  }
+  return count;
+}
+
+/**
+ * Bring the table's color map back in line with the room's seats,
+ * e.g. after a random solo color was settled at game start.
+ */
+export function syncSeatColors(table: ChessTable): void {
+  for (const c of ["w", "b"] as PlayerColor[]) {
+    const playerId = table.room.seats[c]?.playerId;
+    if (playerId && table.colors.has(playerId)) table.colors.set(playerId, c);
+  }
+}
+
+function slotOrigin(slot: number): { x: number; y: number; z: number } {
+  return {
+    x: FIRST_ORIGIN.x + (slot % GRID_COLUMNS) * TABLE_SPACING,
+    y: FIRST_ORIGIN.y,
+    z: FIRST_ORIGIN.z + Math.floor(slot / GRID_COLUMNS) * TABLE_SPACING,
+  };
+}
+
+export function createRoomManager(params: {
+  world: World;
+  /** Called once per new table, e.g. to wire in-world selection. */
+  onTableCreated?: (table: ChessTable) => void;
+  now?: () => number;
+}): RoomManager {
+  const { world } = params;
+  const now = params.now ?? (() => Date.now());
+
+  const tables = new Map<string, ChessTable>();
+  const playerTables = new Map<string, string>(); // playerId -> roomId
+  let nextId = 1;
+
+  const freeSlot = (): number | undefined => {
+    const used = new Set([...tables.values()].map((t) => t.slot));
+    for (let slot = 0; slot < MAX_TABLES; slot++) {
+      if (!used.has(slot)) return slot;
+    }
+    return undefined;
+  };
+
+  const create = (makeRoom: (roomId: string) => ChessRoom = createRoom): ChessTable | undefined => {
+    const slot = freeSlot();
+    if (slot === undefined) return undefined;
+
+    const roomId = slot === 0 ? MAIN_ROOM_ID : `table-${nextId++}`;
+    const room = makeRoom(roomId);
+    const board = buildBoard3D({ world, origin: slotOrigin(slot), pieceSet: room.selection.pieceSet });
+    syncPiecesToFen({ world, board, fen: room.chess.fen() });
+
+    const table: ChessTable = {
+      room,
+      board,
+      slot,
+      players: new Map(),
+      colors: new Map(),
+      emptySince: now(),
+    };
+    tables.set(roomId, table);
+    gameEvents.emitGame("chess.room.created", { roomId, slot, mode: room.selection.mode });
+    params.onTableCreated?.(table);
+    return table;
+  };
+
+  const get = (roomId: string) => tables.get(roomId);
+
+  const list = () => [...tables.values()].sort((a, b) => a.slot - b.slot);
+
+  const summaries = (): TableSummary[] =>
+    list().map((t) => ({
+      roomId: t.room.id,
+      mode: t.room.selection.mode,
+      timeControl: t.room.selection.timeControl,
+      status: t.room.status,
+      players: t.players.size,
+      openSeats: t.room.status === "lobby" ? openSeatCount(t.room) : 0,
+      spectators: spectatorCount(t),
+      opening: t.room.opening,
+    }));
+
+  const tableOf = (playerId: string) => {
+    const roomId = playerTables.get(playerId);
+    return roomId ? tables.get(roomId) : undefined;
+  };
+
+  const findOpen = () => list().find((t) => t.room.status === "lobby" && openSeatCount(t.room) > 0);
+
+  const findHeldSeat = (playerId: string) =>
+    list().find((t) => {
+      const color = seatColorOf(t.room, playerId);
+      return t.room.status === "playing" && !!color && t.room.away?.[color] !== undefined;
+    });
+
+  const leave = (playerId: string): ChessTable | undefined => {
+    const table = tableOf(playerId);
+    playerTables.delete(playerId);
+    if (!table) return undefined;
+
+    table.players.delete(playerId);
+    table.colors.delete(playerId);
+
+    // Free the seat while still in the lobby so the next player can take it.
+    const { room } = table;
+    if (room.status === "lobby") {
+      for (const c of ["w", "b"] as PlayerColor[]) {
+        if (room.seats[c]?.playerId !== playerId) continue;
+        delete room.seats[c];
+        if (room.selection.mode === "solo") room.seats = {};
+      }
+    }
+
+    if (table.players.size === 0) table.emptySince = now();
+    return table;
+  };
+
+  const addToTable = (table: ChessTable, player: Player) => {
+    const playerId = String(player.id);
+    if (tableOf(playerId) !== table) leave(playerId);
+    table.players.set(playerId, player);
+    table.emptySince = undefined;
+    playerTables.set(playerId, table.room.id);
+  };
+
+  const join = (table: ChessTable, player: Player) => {
+    const playerId = String(player.id);
+    const seated = table.colors.get(playerId);
+    if (tableOf(playerId) === table && seated) return { ok: true, color: seated };
+    // A game in progress only takes back a player whose seat it is holding.
+    const held = findHeldSeat(playerId) === table;
+    if (table.room.status !== "lobby" && !held) return { ok: false, reason: "Game in progress" };
+
+    const seat = assignSeat(table.room, playerId, player.username);
+    if (!seat.ok || !seat.color) return seat;
+
+    addToTable(table, player);
+    table.colors.set(playerId, seat.color);
+    gameEvents.emitGame("chess.seat.assigned", {
+      roomId: table.room.id,
+      playerId,
+      color: seat.color,
+      mode: table.room.selection.mode,
+    });
+    return seat;
+  };
+
+  const watch = (table: ChessTable, player: Player) => {
+    addToTable(table, player);
+  };
+
+  const collectGarbage = (): string[] => {
+    const removed: string[] = [];
+    const t = now();
+    for (const table of list()) {
+      // The main table is permanent so there is always a board at spawn.
+      if (table.slot === 0) continue;
+      if (table.players.size > 0 || table.emptySince === undefined) continue;
+      // An exhibition nobody is watching still finishes its game first.
+      if (table.room.status === "playing") continue;
+      if (t - table.emptySince < TABLE_IDLE_TTL_MS) continue;
+
+      destroyBoard3D({ world, board: table.board });
+      tables.delete(table.room.id);
+      removed.push(table.room.id);
+    }
+    return removed;
+  };
+
+  return { create, get, list, summaries, tableOf, findOpen, findHeldSeat, join, watch, leave, collectGarbage };
+}
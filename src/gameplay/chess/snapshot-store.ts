@@ -0,0 +1,83 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { RoomSnapshot } from "./snapshot";
+
+export const DEFAULT_SNAPSHOT_DIR = "data/rooms";
+
+export interface SnapshotStore {
+  /** Queue a write; only the latest snapshot of each room is kept if writes pile up. */
+  save: (snapshot: RoomSnapshot) => void;
+  remove: (roomId: string) => void;
+  /** Every readable snapshot on disk (unreadable files are skipped with a warning). */
+  loadAll: () => RoomSnapshot[];
+  /** Wait for queued writes. */
+  flush: () => Promise<void>;
+}
+
+/**
+ * One JSON file per room. Each write goes to a temp file that is renamed over the old one,
+ * so a crash mid-write leaves the previous snapshot intact.
+ */
+export function createFileSnapshotStore(params: { dir?: string } = {}): SnapshotStore {
+  const dir = params.dir ?? process.env.CHESS_SNAPSHOT_DIR ?? DEFAULT_SNAPSHOT_DIR;
+  const fileFor = (roomId: string) => join(dir, `${encodeURIComponent(roomId)}.json`);
+
+  const pending = new Map<string, RoomSnapshot | null>(); // null = delete
+  let writing: Promise<void> = Promise.resolve();
+  let scheduled = false;
+
+  const drain = async () => {
+    scheduled = false;
+    const batch = [...pending.entries()];
+    pending.clear();
+    for (const [roomId, snapshot] of batch) {
+      const file = fileFor(roomId);
+      try {
+        if (!snapshot) {
+          await rm(file, { force: true });
+          continue;
+        }
+        mkdirSync(dir, { recursive: true });
+        await writeFile(`${file}.tmp`, JSON.stringify(snapshot));
+        await rename(`${file}.tmp`, file);
+      } catch (err) {
+        console.warn(`[snapshot] could not write ${file}`, err);
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    writing = writing.then(drain);
+  };
+
+  const loadAll = (): RoomSnapshot[] => {
+    if (!existsSync(dir)) return [];
+    const snapshots: RoomSnapshot[] = [];
+    for (const name of readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        snapshots.push(JSON.parse(readFileSync(join(dir, name), "utf8")) as RoomSnapshot);
+      } catch (err) {
+        console.warn(`[snapshot] skipping unreadable ${name}`, err);
+      }
+    }
+    return snapshots;
+  };
+
+  return {
+    save(snapshot) {
+      pending.set(snapshot.roomId, snapshot);
+      schedule();
+    },
+    remove(roomId) {
+      pending.set(roomId, null);
+      schedule();
+    },
+    loadAll,
+    flush: () => writing,
+  };
+}
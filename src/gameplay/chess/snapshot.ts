@@ -0,0 +1,113 @@
+import { Chess } from "chess.js";
+
+import { clockSnapshot, createClock, startClock } from "./clock";
+import { createRoom, markAway, type ChessRoom, type MoveRecord, type PendingOffer, type Seat } from "./game";
+import type { ClockState, LobbySelection, PlayerColor, RoomStatus } from "./types";
+
+/** Bump when the snapshot shape changes; older snapshots are then discarded rather than misread. */
+export const ROOM_SNAPSHOT_VERSION = 1;
+
+/** Live games are also saved on this interval, so clocks lose at most this much on a crash. */
+export const SNAPSHOT_INTERVAL_MS = 5000;
+
+/** Everything needed to carry on a room's game after a server restart. */
+export type RoomSnapshot = {
+  version: number;
+  roomId: string;
+  savedAt: number;
+  selection: LobbySelection;
+  seats: Partial<Record<PlayerColor, Seat>>;
+  status: RoomStatus;
+  startFen: string;
+  fen: string; // position after `history`, checked on restore
+  history: MoveRecord[];
+  clock?: ClockState;
+  winner?: PlayerColor;
+  endReason?: string;
+  startedAt?: number;
+  endedAt?: number;
+  offer?: PendingOffer;
+  opening?: string;
+};
+
+export function snapshotRoom(room: ChessRoom, now = Date.now()): RoomSnapshot {
+  return {
+    version: ROOM_SNAPSHOT_VERSION,
+    roomId: room.id,
+    savedAt: now,
+    selection: structuredClone(room.selection),
+    seats: structuredClone(room.seats),
+    status: room.status,
+    startFen: room.startFen,
+    fen: room.chess.fen(),
+    history: room.history.map((m) => ({ ...m })),
+    clock: room.clock ? clockSnapshot(room.clock, now) : undefined,
+    winner: room.winner,
+    endReason: room.endReason,
+    startedAt: room.startedAt,
+    endedAt: room.endedAt,
+    offer: room.offer ? { ...room.offer } : undefined,
+    opening: room.opening,
+  };
+}
+
+/**
+ * Rebuild a room from a snapshot under a (possibly new) room id. The moves are replayed through
+ * chess.js, so a snapshot that does not add up is rejected instead of producing a broken game.
+ * Clocks resume from their saved times: the downtime is not charged to anyone. Seated players
+ * are all offline after a restart, so their seats are held as if they had just disconnected.
+ */
+export function restoreRoom(
+  snapshot: RoomSnapshot,
+  roomId: string,
+  now = Date.now()
+): { ok: true; room: ChessRoom } | { ok: false; reason: string } {
+  if (snapshot.version !== ROOM_SNAPSHOT_VERSION) {
+    return { ok: false, reason: `Unsupported snapshot version ${snapshot.version}` };
+  }
+
+  const room = createRoom(roomId);
+  try {
+    room.chess = new Chess(snapshot.startFen);
+    for (const record of snapshot.history) {
+      room.chess.move({ from: record.uci.slice(0, 2), to: record.uci.slice(2, 4), promotion: record.uci[4] });
+    }
+  } catch {
+    return { ok: false, reason: "Snapshot moves do not replay" };
+  }
+  if (room.chess.fen() !== snapshot.fen) return { ok: false, reason: "Snapshot position does not match its moves" };
+
+  // Defaults fill in selection fields added since the snapshot was written.
+  room.selection = { ...room.selection, ...structuredClone(snapshot.selection) };
+  room.seats = structuredClone(snapshot.seats);
+  room.startFen = snapshot.startFen;
+  room.history = snapshot.history.map((m) => ({ ...m }));
+  room.lastMove = room.history[room.history.length - 1]?.uci;
+  room.winner = snapshot.winner;
+  room.endReason = snapshot.endReason;
+  room.startedAt = snapshot.startedAt;
+  room.endedAt = snapshot.endedAt;
+  room.turnStartedAt = now;
+  room.offer = snapshot.offer ? { ...snapshot.offer } : undefined;
+  room.opening = snapshot.opening;
+
+  // Walk the lifecycle up to the saved state; the clock is restored below, not started on entry.
+  const path: RoomStatus[] = snapshot.status === "lobby" ? [] : snapshot.status === "playing" ? ["playing"] : ["playing", "ended"];
+  for (const status of path) {
+    if (!room.lifecycle.transition(status).ok) return { ok: false, reason: `Snapshot cannot reach "${snapshot.status}"` };
+  }
+
+  if (snapshot.clock) {
+    const clock = createClock(snapshot.clock.timeControl);
+    if (clock) {
+      clock.remainingMs = { ...snapshot.clock.remainingMs };
+      if (snapshot.clock.running && room.status === "playing") startClock(clock, snapshot.clock.running, now);
+    }
+    room.clock = clock;
+  }
+
+  for (const seat of Object.values(room.seats)) {
+    if (seat && seat.playerId !== "AI") markAway(room, seat.playerId, now);
+  }
+  return { ok: true, room };
+}
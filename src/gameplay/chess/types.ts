@@ -1,11 +1,82 @@
-export type Difficulty = "easy" | "medium" | "hard";
-export type Mode = "solo" | "duo";
+/** Computer strength level, 1 (weakest) to 10 (full strength). See `AI_LEVELS`. */
+export type Difficulty = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+/** "exhibition": both seats are computers, paced for watching, restarting after each game. */
+export type Mode = "solo" | "duo" | "exhibition";
 
 export type PlayerColor = "w" | "b";
 
+/** Color the solo player asks for; "random" is decided when the game starts. */
+export type ColorChoice = PlayerColor | "random";
+
+export type ExhibitionSettings = {
+  levels: Record<PlayerColor, Difficulty>; // each computer's strength
+  moveDelayMs: number; // minimum time between moves
+};
+
+/** How the 3D board draws its pieces. See `PIECE_SETS`. */
+export type PieceSetId = "staunton" | "blocks";
+
+export type TimeControlId = "untimed" | "bullet" | "blitz" | "rapid" | "classical";
+
+export type TimeControl = {
+  baseMs: number;
+  incrementMs: number; // added after each completed move
+  delayMs: number; // grace period at the start of each turn before the clock runs down
+};
+
 export type LobbySelection = {
   mode: Mode;
   difficulty: Difficulty; // used in solo
+  color: ColorChoice; // solo player's color
+  exhibition: ExhibitionSettings; // used in exhibition
+  timeControl: TimeControlId;
+  pieceSet: PieceSetId; // cosmetic, for the table's 3D board
+  pgn?: string; // imported game record to continue from (validated before it is stored)
+  fen?: string; // custom starting position (validated before it is stored)
+};
+
+export type OfferKind = "draw" | "takeback";
+
+export type ClockState = {
+  timeControl: TimeControlId;
+  remainingMs: Record<PlayerColor, number>; // snapshot at send time
+  running?: PlayerColor;
+  delayLeftMs: number; // unused delay for the running side at send time
+};
+
+export type RoomStatus = "lobby" | "playing" | "ended";
+
+/** One row of the lobby's open-table list. */
+export type TableSummary = {
+  roomId: string;
+  mode: Mode;
+  timeControl: TimeControlId;
+  status: RoomStatus;
+  players: number;
+  openSeats: number;
+  spectators: number;
+  opening?: string;
+};
+
+export type ViewerRole = "player" | "spectator";
+
+/** A player's place in the matchmaking queue. */
+export type QueueStatus = {
+  waitingMs: number;
+  ratingWindow: number; // rating gap currently accepted; widens while waiting
+  timeControls: TimeControlId[];
+  playersQueued: number;
+};
+
+export type RecordCounts = { wins: number; losses: number; draws: number };
+
+/** The viewer's saved record, shown in the lobby when saving is enabled. */
+export type ProfileSummary = {
+  rating: number; // Elo from games against other players
+  ratedGames: number;
+  vsPlayers: RecordCounts;
+  vsComputer: (RecordCounts & { level: number })[];
+  recent: { opponent: string; color: PlayerColor; outcome: "win" | "loss" | "draw"; reason: string; endedAt: number }[];
 };
 
 export type UiState =
@@ -14,7 +85,18 @@ export type UiState =
       lobby: {
         mode: Mode;
         difficulty: Difficulty;
+        color: ColorChoice;
+        exhibition: ExhibitionSettings;
+        timeControl: TimeControlId;
+        pieceSet: PieceSetId;
         waitingForOpponent: boolean;
+        roomId: string;
+        tables: TableSummary[];
+        hasImportedGame: boolean;
+        opening?: string; // recognised opening of the imported game / custom position
+        fen?: string;
+        profile?: ProfileSummary;
+        queue?: QueueStatus; // present while you are looking for an opponent
       };
     }
   | {
@@ -22,11 +104,21 @@ export type UiState =
       game: {
         fen: string;
         turn: PlayerColor;
-        yourColor: PlayerColor;
+        mode: Mode;
+        role: ViewerRole;
+        yourColor?: PlayerColor; // absent for spectators
+        orientation: PlayerColor; // side shown at the bottom: your color, White for spectators
+        moves: string[]; // SAN move list so far
+        spectators: number;
         legalMoves?: string[]; // UCI like e2e4 (optional helper)
         status: "playing" | "check" | "checkmate" | "stalemate" | "draw";
         winner?: PlayerColor;
         lastMove?: string;
+        clock?: ClockState;
+        offer?: { kind: OfferKind; from: PlayerColor }; // pending draw offer / takeback request
+        awayMs?: Partial<Record<PlayerColor, number>>; // disconnected sides: time left to come back
+        thinking?: boolean; // the computer is working on its move
+        opening?: string; // most specific named opening reached so far
       };
     }
   | {
@@ -34,15 +126,6 @@ export type UiState =
       end: {
         result: "white" | "black" | "draw";
         reason: string;
+        nextGameInMs?: number; // exhibition: countdown to the next game
       };
     };
-
-export type UiToServer =
-  | { type: "ui.ready" }
-  | { type: "ui.action"; action: string; payload?: any };
-
-export type ServerToUi =
-  | { type: "ui.toast"; payload: { message: string; tone?: "info" | "success" | "warning" | "error"; ttlMs?: number } }
-  | { type: "ui.hud"; payload: { slot: "topLeft" | "topRight" | "bottomLeft" | "bottomRight"; text: string } }
-  | { type: "ui.debug"; payload: { visible: boolean; text?: string } }
-  | { type: "ui.state"; payload: UiState };
@@ -0,0 +1,37 @@
+import type { Player, World } from "hytopia";
+
+import type { Board3D } from "./board3d";
+
+// How far behind the first rank, and how high above the board, the camera sits.
+const CAMERA_BACK = 6;
+const CAMERA_HEIGHT = 9;
+
+/** Where to put the camera to see the board from `color`'s side, and where to look. */
+export function boardCameraView(
+  board: Board3D,
+  color: "w" | "b"
+): { position: { x: number; y: number; z: number }; target: { x: number; y: number; z: number } } {
+  const { origin } = board;
+  // Ranks run along +z from White's side (see squareToWorld).
+  const target = { x: origin.x + 4, y: origin.y, z: origin.z + 4 };
+  const z = color === "w" ? origin.z - CAMERA_BACK : origin.z + 8 + CAMERA_BACK;
+  return { position: { x: target.x, y: origin.y + CAMERA_HEIGHT, z }, target };
+}
+
+/**
+ * Fix the player's camera behind their side of the board.
+ * NEEDS_VERIFICATION: attach/track-by-position setters on the target SDK version.
+ */
+export function pointCameraAtBoard(params: { player: Player; board: Board3D; color: "w" | "b" }): void {
+  const { position, target } = boardCameraView(params.board, params.color);
+  params.player.camera.setAttachedToPosition(position);
+  params.player.camera.setTrackedPosition(target);
+}
+
+/** Hand the camera back to the player's own entity (e.g. when they return to the lobby). */
+export function releaseBoardCamera(params: { world: World; player: Player }): void {
+  const { world, player } = params;
+  const [entity] = world.entityManager.getPlayerEntitiesByPlayer(player);
+  player.camera.setTrackedPosition(undefined);
+  if (entity) player.camera.setAttachedToEntity(entity);
+}
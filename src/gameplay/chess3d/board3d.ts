@@ -1,15 +1,59 @@
 import { BlockType } from "hytopia";
 import { Entity, RigidBodyType, ColliderShape } from "hytopia";
 import type { World } from "hytopia";
-import { EntityEvent } from "hytopia";
 import { Chess } from "chess.js";
 
+import type { PieceSetId } from "../chess/types";
+import type { HighlightKind } from "./highlights";
+import { DEFAULT_PIECE_SET, pieceShape, type PieceShape } from "./piece-sets";
+
 export type Square = {
   file: number; // 0..7 a..h
   rank: number; // 0..7 1..8
 };
 
-export type PieceKey = string; // like "w_p_e2" or "b_k_e8"
+export type PieceKey = string; // like "w_p_12": color, type and a per-board serial, so a key follows its piece
+
+type PieceColor = "w" | "b";
+type Vec3 = { x: number; y: number; z: number };
+
+// Piece bases stand this far above the board blocks' origin.
+const PIECE_BASE_HEIGHT = 0.15;
+
+// Pieces face the opponent: White looks along +z, Black along -z.
+const FACING: Record<PieceColor, { x: number; y: number; z: number; w: number }> = {
+  w: { x: 0, y: 0, z: 0, w: 1 },
+  b: { x: 0, y: 1, z: 0, w: 0 },
+};
+
+/** How long a moving piece is in the air, and how high it lifts at the top of its arc. */
+export const MOVE_ANIMATION_MS = 350;
+const MOVE_LIFT = 0.8;
+
+/** Captured pieces arc off the board on their owner's side, then despawn. */
+const CAPTURE_ANIMATION_MS = 450;
+const CAPTURE_LIFT = 1.5;
+
+/** The castling rook sets off once the king is part way across. */
+const CASTLING_ROOK_DELAY_MS = 150;
+
+type PieceAnimation = {
+  entity: Entity;
+  from: Vec3;
+  to: Vec3;
+  startAt: number;
+  durationMs: number;
+  lift: number;
+  /** Runs once the piece lands (or the animation is cut short by the next update). */
+  onDone?: () => void;
+};
+
+// Surrounding floor extent, in squares relative to the a1 corner.
+const FLOOR_MIN = -6;
+const FLOOR_MAX = 14;
+
+/** Width of the board plus its surrounding floor, in blocks. Used to space boards apart. */
+export const BOARD_FOOTPRINT = FLOOR_MAX - FLOOR_MIN + 1;
 
 export type Board3D = {
   origin: { x: number; y: number; z: number }; // a1 corner (lower-left from White)
@@ -17,8 +61,15 @@ export type Board3D = {
   darkId: number;
   highlightId: number;
   pieces: Map<PieceKey, Entity>;
+  squares: Map<string, PieceKey>; // "e2" -> key of the piece standing there
+  animations: PieceAnimation[];
+  nextPieceId: number;
+  pieceSet: PieceSetId;
   squareSelectors: Map<string, Entity>; // "e2" -> entity
-  selection?: { from?: string };
+  /** Each player's in-world selection: the square they picked and the position they picked it on. */
+  selections: Map<string, { from: string; fen: string }>;
+  /** Highlight markers by layer, then square (see highlights.ts). */
+  highlights: Map<string, Map<string, { kind: HighlightKind; entity: Entity }>>;
 };
 
 export function squareName(file: number, rank: number): string {
@@ -31,8 +82,37 @@ export function squareToWorld(origin: Board3D["origin"], sq: string): { x: numbe
   return { x: origin.x + file, y: origin.y, z: origin.z + rank };
 }
 
-function pieceKey(color: "w" | "b", type: string, sq: string): PieceKey {
-  return `${color}_${type}_${sq}`;
+function pieceKey(board: Board3D, color: PieceColor, type: string): PieceKey {
+  return `${color}_${type}_${board.nextPieceId++}`;
+}
+
+function parsePieceKey(key: PieceKey): { color: PieceColor; type: string } {
+  const [color, type] = key.split("_");
+  return { color: color as PieceColor, type };
+}
+
+/** Where a piece's root entity sits relative to the piece's base: its first block, or a model's middle. */
+function rootOffset(shape: PieceShape): Vec3 {
+  if (shape.kind === "model") return { x: 0, y: shape.height / 2, z: 0 };
+  const { offset } = shape.parts[0];
+  return { x: offset.x * shape.scale, y: offset.y * shape.scale, z: offset.z * shape.scale };
+}
+
+/** Where the root entity of piece `key` rests on a square. */
+function restingPosition(board: Board3D, key: PieceKey, sq: string): Vec3 {
+  const pos = squareToWorld(board.origin, sq);
+  const offset = rootOffset(pieceShape(board.pieceSet, parsePieceKey(key).type));
+  return { x: pos.x + 0.5 + offset.x, y: pos.y + PIECE_BASE_HEIGHT + offset.y, z: pos.z + 0.5 + offset.z };
+}
+
+/** Off-board spot a captured piece flies to: level with its square, on its owner's side of the board. */
+function capturePosition(board: Board3D, key: PieceKey, sq: string): Vec3 {
+  const pos = restingPosition(board, key, sq);
+  return { ...pos, x: parsePieceKey(key).color === "w" ? board.origin.x - 1.5 : board.origin.x + 9.5 };
+}
+
+function squareDistance(a: string, b: string): number {
+  return Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) + Math.abs(Number(a[1]) - Number(b[1]));
 }
 
 export function registerChessBlockTypes(world: World): { lightId: number; darkId: number; highlightId: number } {
@@ -74,6 +154,7 @@ export function registerChessBlockTypes(world: World): { lightId: number; darkId
 export function buildBoard3D(params: {
   world: World;
   origin: { x: number; y: number; z: number };
+  pieceSet?: PieceSetId;
 }): Board3D {
   const { world, origin } = params;
 
@@ -90,8 +171,8 @@ export function buildBoard3D(params: {
   }
 
   // Add a simple surrounding floor
-  for (let x = -6; x <= 14; x++) {
-    for (let z = -6; z <= 14; z++) {
+  for (let x = FLOOR_MIN; x <= FLOOR_MAX; x++) {
+    for (let z = FLOOR_MIN; z <= FLOOR_MAX; z++) {
       const wx = origin.x + x;
       const wz = origin.z + z;
       const insideBoard = x >= 0 && x < 8 && z >= 0 && z < 8;
@@ -137,95 +218,297 @@ export function buildBoard3D(params: {
     darkId,
     highlightId,
     pieces: new Map(),
+    squares: new Map(),
+    animations: [],
+    nextPieceId: 1,
+    pieceSet: params.pieceSet ?? DEFAULT_PIECE_SET,
     squareSelectors,
+    selections: new Map(),
+    highlights: new Map(),
   };
 }
 
-export function spawnPiecesFromFen(params: {
+/**
+ * Despawn every entity the board owns and clear its blocks (including the floor),
+ * so the area can be reused by another board.
+ */
+export function destroyBoard3D(params: { world: World; board: Board3D }): void {
+  const { world, board } = params;
+
+  // Captured pieces still on their way off the board are no longer in `pieces`.
+  for (const animation of board.animations) if (animation.entity.isSpawned) animation.entity.despawn();
+  board.animations = [];
+  for (const e of board.pieces.values()) if (e.isSpawned) e.despawn();
+  board.pieces.clear();
+  board.squares.clear();
+  for (const layer of board.highlights.values()) {
+    for (const { entity } of layer.values()) if (entity.isSpawned) entity.despawn();
+  }
+  board.highlights.clear();
+  board.selections.clear();
+  for (const e of board.squareSelectors.values()) e.despawn();
+  board.squareSelectors.clear();
+
+  const { origin } = board;
+  for (let x = FLOOR_MIN; x <= FLOOR_MAX; x++) {
+    for (let z = FLOOR_MIN; z <= FLOOR_MAX; z++) {
+      // Block id 0 is air.
+      world.chunkLattice.setBlock({ x: origin.x + x, y: origin.y, z: origin.z + z }, 0);
+      world.chunkLattice.setBlock({ x: origin.x + x, y: origin.y - 1, z: origin.z + z }, 0);
+    }
+  }
+}
+
+/**
+ * Spawn a piece in the board's piece set. A voxel piece is its first block with the others
+ * attached as child entities, so moving the root moves the whole piece.
+ * NEEDS_VERIFICATION: child entities follow their parent's position/rotation and despawn with it.
+ */
+function spawnPiece(params: { world: World; board: Board3D; color: PieceColor; type: string; sq: string }): PieceKey {
+  const { world, board, color, type, sq } = params;
+  const key = pieceKey(board, color, type);
+  const shape = pieceShape(board.pieceSet, type);
+  const tex = color === "w" ? "blocks/piece_white.png" : "blocks/piece_black.png";
+
+  // Only the root gets a collider; the sensor covers the whole piece.
+  const sensor = {
+    type: RigidBodyType.FIXED,
+    colliders: [
+      {
+        shape: ColliderShape.BLOCK,
+        halfExtents: { x: 0.38, y: shape.height / 2, z: 0.38 },
+        isSensor: true,
+        tag: "piece",
+      },
+    ],
+  };
+
+  const scaled = (v: Vec3) => ({ x: v.x * shape.scale, y: v.y * shape.scale, z: v.z * shape.scale });
+  const ent =
+    shape.kind === "model"
+      ? new Entity({
+          name: `Piece ${color}${type} ${sq}`,
+          tag: `chess.piece.${key}`,
+          modelUri: shape.modelUri,
+          modelScale: shape.scale,
+          rigidBodyOptions: sensor,
+        })
+      : new Entity({
+          name: `Piece ${color}${type} ${sq}`,
+          tag: `chess.piece.${key}`,
+          blockTextureUri: tex,
+          blockHalfExtents: scaled(shape.parts[0].halfExtents),
+          rigidBodyOptions: sensor,
+        });
+  ent.spawn(world, restingPosition(board, key, sq), FACING[color]);
+
+  if (shape.kind === "voxel") {
+    const root = shape.parts[0].offset;
+    for (const part of shape.parts.slice(1)) {
+      const child = new Entity({
+        name: `Piece ${color}${type} part`,
+        parent: ent,
+        blockTextureUri: tex,
+        blockHalfExtents: scaled(part.halfExtents),
+        rigidBodyOptions: { type: RigidBodyType.FIXED, colliders: [] },
+      });
+      const relative = { x: part.offset.x - root.x, y: part.offset.y - root.y, z: part.offset.z - root.z };
+      child.spawn(world, scaled(relative));
+    }
+  }
+
+  board.pieces.set(key, ent);
+  board.squares.set(sq, key);
+  return key;
+}
+
+function despawnPiece(board: Board3D, key: PieceKey) {
+  const ent = board.pieces.get(key);
+  board.pieces.delete(key);
+  if (ent?.isSpawned) ent.despawn();
+}
+
+/**
+ * Move the board's piece entities to match `fen`, touching only the squares that changed.
+ *
+ * Pieces that left a square are matched to the squares that need a piece of the same kind:
+ * the mover of `move` (uci) first, then the nearest candidate, which covers the castling rook
+ * and positions rewound by a takeback. A pawn moving onto the last rank is swapped for its
+ * promoted piece when it lands. Pieces left unmatched were captured (including en passant,
+ * where the captured pawn is not on the destination square) and leave the board; squares left
+ * unfilled get a fresh entity.
+ *
+ * With `animate` off, everything snaps into place at once (new games, lobby changes).
+ */
+export function syncPiecesToFen(params: {
   world: World;
   board: Board3D;
   fen: string;
+  move?: string;
+  animate?: boolean;
+  now?: number;
 }): void {
-  const { world, board, fen } = params;
+  const { world, board, fen, move } = params;
+  const animate = params.animate ?? false;
+  const now = params.now ?? Date.now();
 
-  // Clear existing
-  for (const e of board.pieces.values()) e.despawn();
-  board.pieces.clear();
-
-  const chess = new Chess(fen);
-  const b = chess.board(); // 8x8 with rank 8 first
+  // Settle whatever is still in the air so the diff starts from the real board.
+  finishPieceAnimations(board);
 
+  const wanted = new Map<string, { color: PieceColor; type: string }>();
+  const rows = new Chess(fen).board(); // rank 8 first
   for (let r = 0; r < 8; r++) {
     for (let f = 0; f < 8; f++) {
-      const p = b[r][f];
-      if (!p) continue;
+      const p = rows[r][f];
+      if (p) wanted.set(squareName(f, 7 - r), { color: p.color, type: p.type });
+    }
+  }
 
-      const file = f;
-      const rank = 7 - r; // convert to 0..7 where 0 is rank1
-      const sq = squareName(file, rank);
+  // Squares whose piece has to go, and squares that need a new piece.
+  const sources = new Map<string, PieceKey>();
+  for (const [sq, key] of board.squares) {
+    const have = parsePieceKey(key);
+    const want = wanted.get(sq);
+    if (!want || want.color !== have.color || want.type !== have.type) sources.set(sq, key);
+  }
+  const targets = [...wanted.keys()].filter((sq) => sources.has(sq) || !board.squares.has(sq));
+  for (const sq of sources.keys()) board.squares.delete(sq);
+
+  const moves: { key: PieceKey; from: string; to: string; promoteTo?: string }[] = [];
+  const take = (from: string, to: string, promoteTo?: string) => {
+    moves.push({ key: sources.get(from)!, from, to, promoteTo });
+    sources.delete(from);
+    targets.splice(targets.indexOf(to), 1);
+  };
 
-      const tex = p.color === "w" ? "blocks/piece_white.png" : "blocks/piece_black.png";
-      const ent = new Entity({
-        name: `Piece ${p.color}${p.type} ${sq}`,
-        tag: `chess.piece.${p.color}.${p.type}.${sq}`,
-        blockTextureUri: tex,
-        blockHalfExtents: { x: 0.38, y: 0.45, z: 0.38 },
-        emissiveIntensity: p.color === "w" ? 0.0 : 0.0,
-        rigidBodyOptions: {
-          type: RigidBodyType.FIXED,
-          colliders: [
-            {
-              shape: ColliderShape.BLOCK,
-              halfExtents: { x: 0.38, y: 0.45, z: 0.38 },
-              isSensor: true,
-              tag: "piece",
-            },
-          ],
-        },
-      });
+  if (move) {
+    const from = move.slice(0, 2);
+    const to = move.slice(2, 4);
+    const key = sources.get(from);
+    const want = wanted.get(to);
+    if (key && want && targets.includes(to)) {
+      const have = parsePieceKey(key);
+      const backRank = to[1] === "1" || to[1] === "8";
+      if (have.color === want.color && have.type === want.type) take(from, to);
+      else if (have.color === want.color && have.type === "p" && backRank) take(from, to, want.type);
+    }
+  }
 
-      const pos = squareToWorld(board.origin, sq);
-      ent.spawn(world, { x: pos.x + 0.5, y: pos.y + 0.6, z: pos.z + 0.5 });
+  for (const to of [...targets]) {
+    const want = wanted.get(to)!;
+    let best: string | undefined;
+    for (const [from, key] of sources) {
+      const have = parsePieceKey(key);
+      if (have.color !== want.color || have.type !== want.type) continue;
+      if (!best || squareDistance(from, to) < squareDistance(best, to)) best = from;
+    }
+    if (best) take(best, to);
+  }
 
-      const key = pieceKey(p.color, p.type, sq);
-      board.pieces.set(key, ent);
+  // Captured: off the board before the capturing piece lands.
+  for (const [sq, key] of sources) {
+    const ent = board.pieces.get(key);
+    if (!ent) continue;
+    if (!animate) {
+      despawnPiece(board, key);
+      continue;
     }
+    board.pieces.delete(key);
+    board.animations.push({
+      entity: ent,
+      from: restingPosition(board, key, sq),
+      to: capturePosition(board, key, sq),
+      startAt: now,
+      durationMs: CAPTURE_ANIMATION_MS,
+      lift: CAPTURE_LIFT,
+      onDone: () => ent.isSpawned && ent.despawn(),
+    });
   }
-}
 
-export function wire3DSelection(params: {
-  world: World;
-  board: Board3D;
-  getFen: () => string;
-  canPlayerMoveFrom: (playerId: string, square: string) => boolean;
-  tryMove: (playerId: string, uci: string) => { ok: boolean; reason?: string };
-  onAnyMoveApplied: () => void;
-}): void {
-  const { board } = params;
-
-  // Listen for interactions on square selectors (tap/click in world).
-  for (const [sq, ent] of board.squareSelectors.entries()) {
-    ent.on(EntityEvent.INTERACT, ({ player }) => {
-      const playerId = String(player.id);
-
-      // First click selects a from-square.
-      if (!board.selection?.from) {
-        if (!params.canPlayerMoveFrom(playerId, sq)) return;
-        board.selection = { from: sq };
-        return;
-      }
+  for (const { key, from, to, promoteTo } of moves) {
+    const ent = board.pieces.get(key);
+    if (!ent) continue;
+    board.squares.set(to, key);
+    const promote = () => {
+      if (!promoteTo) return;
+      despawnPiece(board, key);
+      spawnPiece({ world, board, color: parsePieceKey(key).color, type: promoteTo, sq: to });
+    };
+    if (!animate) {
+      ent.setPosition(restingPosition(board, key, to));
+      promote();
+      continue;
+    }
+    // The king leads when castling; any other piece moving alongside the mover is the rook.
+    const castlingRook = !!move && from !== move.slice(0, 2) && parsePieceKey(key).type === "r";
+    board.animations.push({
+      entity: ent,
+      from: restingPosition(board, key, from),
+      to: restingPosition(board, key, to),
+      startAt: castlingRook ? now + CASTLING_ROOK_DELAY_MS : now,
+      durationMs: MOVE_ANIMATION_MS,
+      lift: MOVE_LIFT,
+      onDone: promote,
+    });
+  }
 
-      const from = board.selection.from;
-      const to = sq;
-      board.selection = {};
+  for (const sq of targets) {
+    const want = wanted.get(sq)!;
+    spawnPiece({ world, board, color: want.color, type: want.type, sq });
+  }
+}
 
-      const uci = `${from}${to}`;
-      const res = params.tryMove(playerId, uci);
-      if (!res.ok) return;
+/** Redraw every piece on the board in another piece set. */
+export function setBoardPieceSet(params: { world: World; board: Board3D; pieceSet: PieceSetId }): void {
+  const { world, board, pieceSet } = params;
+  if (board.pieceSet === pieceSet) return;
+  finishPieceAnimations(board);
+  board.pieceSet = pieceSet;
+  for (const [sq, key] of [...board.squares]) {
+    const { color, type } = parsePieceKey(key);
+    despawnPiece(board, key);
+    spawnPiece({ world, board, color, type, sq });
+  }
+}
 
-      // Refresh pieces from new fen
-      spawnPiecesFromFen({ world: params.world, board, fen: params.getFen() });
-      params.onAnyMoveApplied();
-    });
+/**
+ * Advance the board's piece animations to `now`. Call once per world tick.
+ * NEEDS_VERIFICATION: setPosition on FIXED rigid bodies is replicated smoothly enough to animate with.
+ */
+export function animatePieces(board: Board3D, now = Date.now()): void {
+  if (!board.animations.length) return;
+  const running: PieceAnimation[] = [];
+  for (const animation of board.animations) {
+    const t = Math.min(1, Math.max(0, (now - animation.startAt) / animation.durationMs));
+    if (t < 1) {
+      if (animation.entity.isSpawned) animation.entity.setPosition(arcPosition(animation, t));
+      running.push(animation);
+      continue;
+    }
+    landPiece(animation);
   }
+  board.animations = running;
+}
+
+/** Jump every running animation to its end. */
+export function finishPieceAnimations(board: Board3D): void {
+  const animations = board.animations;
+  board.animations = [];
+  for (const animation of animations) landPiece(animation);
+}
+
+function landPiece(animation: PieceAnimation) {
+  if (animation.entity.isSpawned) animation.entity.setPosition(animation.to);
+  animation.onDone?.();
+}
+
+/** Straight line across the board plus a parabolic lift that peaks half way. */
+function arcPosition(animation: PieceAnimation, t: number): Vec3 {
+  const { from, to, lift } = animation;
+  const eased = t * t * (3 - 2 * t);
+  return {
+    x: from.x + (to.x - from.x) * eased,
+    y: from.y + (to.y - from.y) * eased + 4 * lift * t * (1 - t),
+    z: from.z + (to.z - from.z) * eased,
+  };
 }
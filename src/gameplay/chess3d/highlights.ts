@@ -0,0 +1,125 @@
+import { Entity, RigidBodyType } from "hytopia";
+import type { World } from "hytopia";
+import { Chess, type Square as ChessSquare } from "chess.js";
+
+import { squareToWorld, type Board3D } from "./board3d";
+
+export type HighlightKind = "selected" | "move" | "capture" | "lastMove" | "check";
+
+type HighlightStyle = {
+  tint: { r: number; g: number; b: number };
+  opacity: number;
+  halfSize: number; // half the side of the square marker; destinations get a smaller dot
+  layer: number; // stacking order, so overlapping markers do not z-fight
+};
+
+const HIGHLIGHT_STYLES: Record<HighlightKind, HighlightStyle> = {
+  lastMove: { tint: { r: 120, g: 170, b: 255 }, opacity: 0.35, halfSize: 0.5, layer: 0 },
+  check: { tint: { r: 255, g: 40, b: 40 }, opacity: 0.6, halfSize: 0.5, layer: 1 },
+  selected: { tint: { r: 255, g: 220, b: 60 }, opacity: 0.55, halfSize: 0.5, layer: 2 },
+  capture: { tint: { r: 255, g: 120, b: 40 }, opacity: 0.55, halfSize: 0.42, layer: 3 },
+  move: { tint: { r: 90, g: 220, b: 90 }, opacity: 0.6, halfSize: 0.16, layer: 3 },
+};
+
+// Markers sit on top of the board blocks, just under the square selectors' sensors.
+const HIGHLIGHT_BASE_HEIGHT = 0.11;
+const HIGHLIGHT_LAYER_STEP = 0.01;
+
+/** Highlights that follow the game: the last move and a king in check. */
+const BOARD_LAYER = "board";
+
+/** Each player's selection lives in its own layer, so clearing one never touches another's. */
+export function selectionLayer(playerId: string): string {
+  return `select:${playerId}`;
+}
+
+function spawnMarker(world: World, board: Board3D, layer: string, sq: string, kind: HighlightKind): Entity {
+  const style = HIGHLIGHT_STYLES[kind];
+  const pos = squareToWorld(board.origin, sq);
+  // NEEDS_VERIFICATION: tintColor on block entities in the target SDK version.
+  const marker = new Entity({
+    name: `Highlight ${kind} ${sq}`,
+    tag: `chess.highlight.${layer}.${sq}`,
+    blockTextureUri: "blocks/highlight.png",
+    blockHalfExtents: { x: style.halfSize, y: 0.005, z: style.halfSize },
+    opacity: style.opacity,
+    tintColor: style.tint,
+    rigidBodyOptions: { type: RigidBodyType.FIXED, colliders: [] },
+  });
+  marker.spawn(world, {
+    x: pos.x + 0.5,
+    y: pos.y + HIGHLIGHT_BASE_HEIGHT + style.layer * HIGHLIGHT_LAYER_STEP,
+    z: pos.z + 0.5,
+  });
+  return marker;
+}
+
+/**
+ * Make `layer` show exactly `marks` (square -> kind). Markers that are already right stay put;
+ * the rest are despawned or spawned.
+ */
+export function setHighlights(params: {
+  world: World;
+  board: Board3D;
+  layer: string;
+  marks: Map<string, HighlightKind>;
+}): void {
+  const { world, board, layer, marks } = params;
+  const current = board.highlights.get(layer) ?? new Map<string, { kind: HighlightKind; entity: Entity }>();
+
+  for (const [sq, shown] of current) {
+    if (marks.get(sq) === shown.kind) continue;
+    if (shown.entity.isSpawned) shown.entity.despawn();
+    current.delete(sq);
+  }
+  for (const [sq, kind] of marks) {
+    if (!current.has(sq)) current.set(sq, { kind, entity: spawnMarker(world, board, layer, sq, kind) });
+  }
+
+  if (current.size) board.highlights.set(layer, current);
+  else board.highlights.delete(layer);
+}
+
+export function clearHighlights(board: Board3D, layer: string): void {
+  for (const { entity } of board.highlights.get(layer)?.values() ?? []) {
+    if (entity.isSpawned) entity.despawn();
+  }
+  board.highlights.delete(layer);
+}
+
+/** Highlight a player's selected square, where that piece can go, and what it can capture. */
+export function showSelection(params: { world: World; board: Board3D; playerId: string; from: string; fen: string }): void {
+  const { world, board, playerId, from, fen } = params;
+  const marks = new Map<string, HighlightKind>([[from, "selected"]]);
+  for (const move of new Chess(fen).moves({ square: from as ChessSquare, verbose: true })) {
+    marks.set(move.to, move.captured ? "capture" : "move");
+  }
+  setHighlights({ world, board, layer: selectionLayer(playerId), marks });
+}
+
+/**
+ * Highlight the last move's squares and the king in check. Pass `lastMove` undefined (and
+ * `inGame` false) to clear them, e.g. back in the lobby.
+ */
+export function showBoardHighlights(params: {
+  world: World;
+  board: Board3D;
+  fen: string;
+  lastMove?: string;
+  inGame: boolean;
+}): void {
+  const { world, board, fen, lastMove, inGame } = params;
+  const marks = new Map<string, HighlightKind>();
+  if (inGame) {
+    if (lastMove) {
+      marks.set(lastMove.slice(0, 2), "lastMove");
+      marks.set(lastMove.slice(2, 4), "lastMove");
+    }
+    const chess = new Chess(fen);
+    if (chess.inCheck()) {
+      const king = chess.findPiece({ type: "k", color: chess.turn() })[0];
+      if (king) marks.set(king, "check");
+    }
+  }
+  setHighlights({ world, board, layer: BOARD_LAYER, marks });
+}
@@ -0,0 +1,81 @@
+import type { PieceSetId } from "../chess/types";
+
+export type PieceType = "p" | "n" | "b" | "r" | "q" | "k";
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** One block of a voxel piece. `offset` is the block's centre relative to the piece's base, facing +z. */
+export type VoxelPart = { offset: Vec3; halfExtents: Vec3 };
+
+/**
+ * How one piece type is drawn: a model, or blocks stacked on the board square.
+ * `scale` multiplies the whole shape; `height` is the top of the (scaled) piece above the board.
+ */
+export type PieceShape =
+  | { kind: "voxel"; parts: VoxelPart[]; scale: number; height: number }
+  | { kind: "model"; modelUri: string; scale: number; height: number };
+
+export type PieceSet = {
+  id: PieceSetId;
+  label: string;
+  pieces: Record<PieceType, PieceShape>;
+};
+
+export const DEFAULT_PIECE_SET: PieceSetId = "staunton";
+
+const part = (y: number, hx: number, hy: number, hz: number, z = 0, x = 0): VoxelPart => ({
+  offset: { x, y, z },
+  halfExtents: { x: hx, y: hy, z: hz },
+});
+
+function voxel(parts: VoxelPart[], scale = 1): PieceShape {
+  const height = Math.max(...parts.map((p) => p.offset.y + p.halfExtents.y)) * scale;
+  return { kind: "voxel", parts, scale, height };
+}
+
+/**
+ * The piece sets players can pick in the lobby. A set of glTF models is added as another
+ * entry using `{ kind: "model", modelUri: "models/chess/<piece>.gltf", ... }` shapes.
+ */
+export const PIECE_SETS: Record<PieceSetId, PieceSet> = {
+  // Stacked blocks in the usual silhouettes; the knight's head points at the opponent.
+  staunton: {
+    id: "staunton",
+    label: "Staunton (voxel)",
+    pieces: {
+      p: voxel([part(0.08, 0.3, 0.08, 0.3), part(0.34, 0.16, 0.18, 0.16), part(0.62, 0.2, 0.12, 0.2)]),
+      n: voxel([part(0.1, 0.32, 0.1, 0.32), part(0.48, 0.18, 0.28, 0.2, -0.06), part(0.8, 0.16, 0.12, 0.3, 0.1)]),
+      b: voxel([part(0.1, 0.32, 0.1, 0.32), part(0.54, 0.18, 0.34, 0.18), part(0.98, 0.12, 0.12, 0.12)]),
+      r: voxel([part(0.1, 0.34, 0.1, 0.34), part(0.5, 0.26, 0.3, 0.26), part(0.88, 0.32, 0.1, 0.32)]),
+      q: voxel([part(0.1, 0.36, 0.1, 0.36), part(0.58, 0.2, 0.38, 0.2), part(1.04, 0.28, 0.08, 0.28)]),
+      k: voxel([
+        part(0.1, 0.38, 0.1, 0.38),
+        part(0.62, 0.22, 0.42, 0.22),
+        part(1.2, 0.06, 0.16, 0.06),
+        part(1.2, 0.16, 0.05, 0.06),
+      ]),
+    },
+  },
+  // One block per piece, told apart by size: cheap on entities for crowded servers.
+  blocks: {
+    id: "blocks",
+    label: "Blocks",
+    pieces: {
+      p: voxel([part(0.3, 0.26, 0.3, 0.26)]),
+      n: voxel([part(0.4, 0.3, 0.4, 0.34)]),
+      b: voxel([part(0.45, 0.28, 0.45, 0.28)]),
+      r: voxel([part(0.4, 0.36, 0.4, 0.36)]),
+      q: voxel([part(0.5, 0.36, 0.5, 0.36)]),
+      k: voxel([part(0.55, 0.38, 0.55, 0.38)]),
+    },
+  },
+};
+
+export function isPieceSetId(value: unknown): value is PieceSetId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PIECE_SETS, value);
+}
+
+export function pieceShape(setId: PieceSetId, type: string): PieceShape {
+  const set = PIECE_SETS[isPieceSetId(setId) ? setId : DEFAULT_PIECE_SET];
+  return set.pieces[type as PieceType] ?? set.pieces.p;
+}
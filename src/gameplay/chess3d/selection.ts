@@ -0,0 +1,87 @@
+import { EntityEvent } from "hytopia";
+import type { World } from "hytopia";
+import { Chess, type Square as ChessSquare } from "chess.js";
+
+import { syncPiecesToFen, type Board3D } from "./board3d";
+import { clearHighlights, selectionLayer, showSelection } from "./highlights";
+
+/** Forget a player's in-world selection and take its highlights down. */
+export function clearSelection(board: Board3D, playerId: string): void {
+  board.selections.delete(playerId);
+  clearHighlights(board, selectionLayer(playerId));
+}
+
+/** Drop selections made on an earlier position (the game moved on, was taken back or ended). */
+export function dropStaleSelections(board: Board3D, fen: string, playing: boolean): void {
+  for (const [playerId, selection] of [...board.selections]) {
+    if (!playing || selection.fen !== fen) clearSelection(board, playerId);
+  }
+}
+
+/** True when `from`-`to` is a legal pawn move onto the last rank, which needs a piece chosen. */
+function needsPromotionChoice(fen: string, from: string, to: string): boolean {
+  return new Chess(fen).moves({ square: from as ChessSquare, verbose: true }).some((m) => m.to === to && !!m.promotion);
+}
+
+/**
+ * Click-to-move on the 3D board. Each player has their own selection: click one of your pieces
+ * to select it, another of your pieces to switch, the same square again to cancel, or a
+ * destination to move. A pawn reaching the last rank asks the player which piece to promote to;
+ * the answer comes back as a normal move with the piece appended.
+ */
+export function wire3DSelection(params: {
+  world: World;
+  board: Board3D;
+  getFen: () => string;
+  /** Spectators can look but never select or move. */
+  isSpectator: (playerId: string) => boolean;
+  canPlayerMoveFrom: (playerId: string, square: string) => boolean;
+  tryMove: (playerId: string, uci: string) => { ok: boolean; reason?: string };
+  /** Ask the player to pick a promotion piece for `uci` (from and to squares only). */
+  askPromotion: (playerId: string, uci: string) => void;
+  onAnyMoveApplied: () => void;
+}): void {
+  const { world, board } = params;
+
+  const select = (playerId: string, from: string) => {
+    const fen = params.getFen();
+    board.selections.set(playerId, { from, fen });
+    showSelection({ world, board, playerId, from, fen });
+  };
+
+  // Listen for interactions on square selectors (tap/click in world).
+  for (const [sq, ent] of board.squareSelectors.entries()) {
+    ent.on(EntityEvent.INTERACT, ({ player }) => {
+      const playerId = String(player.id);
+      if (params.isSpectator(playerId)) return;
+
+      const selection = board.selections.get(playerId);
+      if (!selection) {
+        if (params.canPlayerMoveFrom(playerId, sq)) select(playerId, sq);
+        return;
+      }
+
+      if (sq === selection.from) {
+        clearSelection(board, playerId);
+        return;
+      }
+      if (params.canPlayerMoveFrom(playerId, sq)) {
+        select(playerId, sq);
+        return;
+      }
+
+      clearSelection(board, playerId);
+      const uci = `${selection.from}${sq}`;
+      if (needsPromotionChoice(params.getFen(), selection.from, sq)) {
+        params.askPromotion(playerId, uci);
+        return;
+      }
+
+      const res = params.tryMove(playerId, uci);
+      if (!res.ok) return;
+
+      syncPiecesToFen({ world, board, fen: params.getFen(), move: uci, animate: true });
+      params.onAnyMoveApplied();
+    });
+  }
+}
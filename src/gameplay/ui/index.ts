@@ -1,2 +1,3 @@
 export * from "./types";
+export * from "./protocol";
 export * from "./ui-shell";
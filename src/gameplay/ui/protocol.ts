@@ -0,0 +1,163 @@
+import { TIME_CONTROLS } from "../chess/clock";
+import { parseMoveDelay } from "../chess/exhibition";
+import { parseDifficulty } from "../chess/levels";
+import { MAX_PGN_LENGTH } from "../chess/pgn";
+import type { ColorChoice, Mode, TimeControlId } from "../chess/types";
+import { isPieceSetId } from "../chess3d/piece-sets";
+import type { UiActionName, UiActionPayloads, UiError, UiToServerMessage } from "./types";
+
+/**
+ * Bump whenever a message or payload changes shape. The overlay sends its version in `ui.ready`
+ * and must match; keep `UI_PROTOCOL_VERSION` in assets/ui/index.html in step.
+ */
+export const UI_PROTOCOL_VERSION = 1;
+
+const MODES: Mode[] = ["solo", "duo", "exhibition"];
+const COLOR_CHOICES: ColorChoice[] = ["w", "b", "random"];
+
+const MAX_FEN_LENGTH = 100;
+const MAX_ROOM_ID_LENGTH = 64;
+const UCI_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+/** One payload field: how to read it, and what to say when it cannot be read. */
+type Field<T> = { expected: string; optional?: boolean; parse: (value: unknown) => T | undefined };
+
+type PayloadSchema<T> = (payload: unknown) => Parsed<T>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/** Actions without a payload; an empty object is accepted too. */
+const none: PayloadSchema<undefined> = (payload) =>
+  payload === undefined || (isRecord(payload) && !Object.keys(payload).length)
+    ? { ok: true, value: undefined }
+    : { ok: false, reason: "takes no payload" };
+
+/** An object with exactly these fields (optional ones may be missing); anything else is rejected. */
+function object<T>(fields: { [K in keyof T]-?: Field<Exclude<T[K], undefined>> }): PayloadSchema<T> {
+  return (payload) => {
+    if (!isRecord(payload)) return { ok: false, reason: "payload must be an object" };
+    const unknown = Object.keys(payload).find((key) => !(key in fields));
+    if (unknown) return { ok: false, reason: `unexpected field "${unknown}"` };
+
+    const value: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(fields) as [string, Field<unknown>][]) {
+      if (payload[key] === undefined) {
+        if (field.optional) continue;
+        return { ok: false, reason: `"${key}" is required` };
+      }
+      const parsed = field.parse(payload[key]);
+      if (parsed === undefined) return { ok: false, reason: `"${key}" must be ${field.expected}` };
+      value[key] = parsed;
+    }
+    return { ok: true, value: value as T };
+  };
+}
+
+const text = (maxLength: number, optional = false): Field<string> => ({
+  expected: `a string of at most ${maxLength} characters`,
+  optional,
+  parse: (value) => (typeof value === "string" && value.length <= maxLength ? value : undefined),
+});
+
+const oneOf = <T extends string>(values: readonly T[], optional = true): Field<T> => ({
+  expected: `one of ${values.join(", ")}`,
+  optional,
+  parse: (value) => (values.includes(value as T) ? (value as T) : undefined),
+});
+
+const difficulty = { expected: "a level from 1 to 10", optional: true, parse: parseDifficulty };
+
+const TIME_CONTROL_IDS = Object.keys(TIME_CONTROLS) as TimeControlId[];
+
+const ACTION_SCHEMAS: { [A in UiActionName]: PayloadSchema<UiActionPayloads[A]> } = {
+  "lobby.set": object({
+    mode: oneOf(MODES),
+    difficulty,
+    color: oneOf(COLOR_CHOICES),
+    whiteLevel: difficulty,
+    blackLevel: difficulty,
+    moveDelayMs: { expected: "a number of milliseconds", optional: true, parse: parseMoveDelay },
+    timeControl: oneOf(TIME_CONTROL_IDS),
+    pieceSet: { expected: "a known piece set", optional: true, parse: (v) => (isPieceSetId(v) ? v : undefined) },
+    fen: text(MAX_FEN_LENGTH, true),
+  }),
+  "lobby.importPgn": object({ pgn: text(MAX_PGN_LENGTH) }),
+  "lobby.start": none,
+  "queue.join": object({
+    timeControls: {
+      expected: "a non-empty list of time controls",
+      parse: (value) => {
+        if (!Array.isArray(value) || !value.length) return undefined;
+        return value.every((tc) => TIME_CONTROL_IDS.includes(tc)) ? (value as TimeControlId[]) : undefined;
+      },
+    },
+  }),
+  "queue.cancel": none,
+  "room.create": none,
+  "room.leave": none,
+  "room.join": object({ roomId: text(MAX_ROOM_ID_LENGTH) }),
+  "room.watch": object({ roomId: text(MAX_ROOM_ID_LENGTH) }),
+  "exhibition.stop": none,
+  "game.move": object({
+    uci: {
+      expected: "a move like e2e4 or e7e8q",
+      parse: (value) => (typeof value === "string" && UCI_PATTERN.test(value) ? value : undefined),
+    },
+  }),
+  "game.resign": none,
+  "game.offerDraw": none,
+  "game.acceptDraw": none,
+  "game.declineDraw": none,
+  "game.requestTakeback": none,
+  "game.acceptTakeback": none,
+  "game.declineTakeback": none,
+  "end.rematch": none,
+  "end.backToLobby": none,
+  "end.copyPgn": none,
+};
+
+function isActionName(value: unknown): value is UiActionName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ACTION_SCHEMAS, value);
+}
+
+/**
+ * Check raw data from the overlay against the protocol. The result is fully typed; anything
+ * else comes back as the error to send to the overlay.
+ */
+export function parseUiMessage(data: unknown): { ok: true; message: UiToServerMessage } | { ok: false; error: UiError } {
+  if (!isRecord(data)) return { ok: false, error: { code: "malformed", message: "Message must be an object" } };
+
+  if (data.type === "ui.ready") {
+    if (data.version !== UI_PROTOCOL_VERSION) {
+      return {
+        ok: false,
+        error: {
+          code: "unsupported_version",
+          message: `Protocol version ${String(data.version)} is not supported (server speaks ${UI_PROTOCOL_VERSION}); reload to update`,
+        },
+      };
+    }
+    return { ok: true, message: { type: "ui.ready", version: UI_PROTOCOL_VERSION } };
+  }
+
+  if (data.type !== "ui.action") {
+    return { ok: false, error: { code: "malformed", message: `Unknown message type ${JSON.stringify(data.type)}` } };
+  }
+
+  const { action } = data;
+  if (!isActionName(action)) {
+    return {
+      ok: false,
+      error: { code: "unknown_action", message: `Unknown action ${JSON.stringify(action)}`, action: String(action) },
+    };
+  }
+
+  const payload = (ACTION_SCHEMAS[action] as PayloadSchema<unknown>)(data.payload);
+  if (!payload.ok) {
+    return { ok: false, error: { code: "invalid_payload", message: `${action}: ${payload.reason}`, action } };
+  }
+  return { ok: true, message: { type: "ui.action", action, payload: payload.value } as UiToServerMessage };
+}
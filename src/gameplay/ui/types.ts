@@ -1,13 +1,79 @@
+import type {
+  ColorChoice,
+  Difficulty,
+  Mode,
+  PieceSetId,
+  TimeControlId,
+  UiState,
+} from "../chess/types";
+
 export type ToastTone = "info" | "success" | "warning" | "error";
 
 export type HudSlot = "topLeft" | "topRight" | "bottomLeft" | "bottomRight";
 
+/** Lobby settings; only the fields present are changed. */
+export type LobbySetPayload = {
+  mode?: Mode;
+  difficulty?: Difficulty;
+  color?: ColorChoice;
+  whiteLevel?: Difficulty; // exhibition
+  blackLevel?: Difficulty; // exhibition
+  moveDelayMs?: number; // exhibition, clamped to the supported range
+  timeControl?: TimeControlId;
+  pieceSet?: PieceSetId;
+  fen?: string; // "" clears the custom position
+};
+
+/** Payload of each `ui.action`; `undefined` for actions that take none. */
+export type UiActionPayloads = {
+  "lobby.set": LobbySetPayload;
+  "lobby.importPgn": { pgn: string }; // "" clears the imported game
+  "lobby.start": undefined;
+  "queue.join": { timeControls: TimeControlId[] };
+  "queue.cancel": undefined;
+  "room.create": undefined;
+  "room.leave": undefined;
+  "room.join": { roomId: string };
+  "room.watch": { roomId: string };
+  "exhibition.stop": undefined;
+  "game.move": { uci: string };
+  "game.resign": undefined;
+  "game.offerDraw": undefined;
+  "game.acceptDraw": undefined;
+  "game.declineDraw": undefined;
+  "game.requestTakeback": undefined;
+  "game.acceptTakeback": undefined;
+  "game.declineTakeback": undefined;
+  "end.rematch": undefined;
+  "end.backToLobby": undefined;
+  "end.copyPgn": undefined;
+};
+
+export type UiActionName = keyof UiActionPayloads;
+
+export type UiAction = { [A in UiActionName]: { action: A; payload: UiActionPayloads[A] } }[UiActionName];
+
 export type UiToServerMessage =
-  | { type: "ui.ready" }
-  | { type: "ui.action"; action: string; payload?: any };
+  | { type: "ui.ready"; version: number } // protocol handshake, sent when the overlay loads
+  | ({ type: "ui.action" } & UiAction);
+
+export type UiErrorCode =
+  | "malformed" // not an object with a known `type`
+  | "unknown_action"
+  | "invalid_payload"
+  | "unsupported_version"
+  | "handshake_required" // an action arrived before a successful `ui.ready`
+  | "action_rejected"; // valid, but refused by the server (`reason` says why)
+
+export type UiError = { code: UiErrorCode; message: string; action?: string; reason?: string };
 
 export type ServerToUiMessage =
+  | { type: "ui.hello"; payload: { version: number } } // handshake accepted
+  | { type: "ui.error"; payload: UiError }
   | { type: "ui.toast"; payload: { message: string; tone?: ToastTone; ttlMs?: number } }
   | { type: "ui.debug"; payload: { visible: boolean; text?: string } }
   | { type: "ui.hud"; payload: { slot: HudSlot; text: string } }
-  | { type: "ui.state"; payload: any };
+  | { type: "ui.state"; payload: UiState }
+  | { type: "ui.pgn"; payload: { pgn: string } }
+  // A move from the 3D board needs a promotion piece; the answer is a `game.move` with it appended.
+  | { type: "ui.promotion"; payload: { uci: string } };
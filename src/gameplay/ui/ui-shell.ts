@@ -2,6 +2,7 @@ import type { Player, World } from "hytopia";
 import { PlayerUIEvent } from "hytopia";
 
 import type { GameConfig } from "../../core/config";
+import { parseUiMessage, UI_PROTOCOL_VERSION } from "./protocol";
 import type { ServerToUiMessage, ToastTone, UiToServerMessage, HudSlot } from "./types";
 
 /**
@@ -43,6 +44,10 @@ export function setDebugOverlay(player: Player, visible: boolean, text?: string)
 /**
  * Wire server-side handler for data coming from the player's UI.
  * Docs show listening to PlayerUIEvent.DATA and reading `data`.
+ *
+ * Every message is validated against the protocol first. `onMessage` only ever sees valid
+ * messages, and actions only after the overlay's `ui.ready` handshake. Anything else is
+ * answered with a `ui.error`.
  */
 export function bindUiInbound(params: {
   world: World;
@@ -57,11 +62,26 @@ export function bindUiInbound(params: {
     setDebugOverlay(player, true, "debug: enabled");
   }
 
+  let handshaken = false;
+
   player.ui.on(PlayerUIEvent.DATA, ({ data }) => {
-    // Defensive parse: UI can send any JSON-compatible object.
-    if (!data || typeof data !== "object") return;
+    const parsed = parseUiMessage(data);
+    if (!parsed.ok) {
+      sendUi(player, { type: "ui.error", payload: parsed.error });
+      return;
+    }
 
-    const msg = data as UiToServerMessage;
+    const msg = parsed.message;
+    if (msg.type === "ui.ready") {
+      handshaken = true;
+      sendUi(player, { type: "ui.hello", payload: { version: UI_PROTOCOL_VERSION } });
+    } else if (!handshaken) {
+      sendUi(player, {
+        type: "ui.error",
+        payload: { code: "handshake_required", message: "Send ui.ready before any action", action: msg.action },
+      });
+      return;
+    }
     onMessage?.(msg, player);
   });
 }
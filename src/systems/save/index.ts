@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./ratings";
+export * from "./json-file-store";
+export * from "./save-service";
@@ -0,0 +1,101 @@
+import { existsSync, mkdirSync, readFileSync, renameSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { ArchivedGame, PlayerProfile, SaveStore } from "./types";
+
+export const DEFAULT_SAVE_PATH = "data/save.json";
+
+/** Oldest games are dropped beyond this so the file stays a manageable size. */
+export const MAX_ARCHIVED_GAMES = 5000;
+
+const FILE_VERSION = 1;
+
+type SaveFile = {
+  version: number;
+  profiles: Record<string, PlayerProfile>;
+  games: ArchivedGame[]; // oldest first
+};
+
+function emptyFile(): SaveFile {
+  return { version: FILE_VERSION, profiles: {}, games: [] };
+}
+
+function readSaveFile(path: string): SaveFile {
+  if (!existsSync(path)) return emptyFile();
+  try {
+    const data = JSON.parse(readFileSync(path, "utf8")) as Partial<SaveFile>;
+    return { version: FILE_VERSION, profiles: data.profiles ?? {}, games: data.games ?? [] };
+  } catch (err) {
+    // Never overwrite a file we could not read; keep it for inspection and start a new one beside it.
+    console.warn(`[save] could not read ${path}, starting empty`, err);
+    try {
+      renameSync(path, `${path}.unreadable-${Date.now()}`);
+    } catch {
+      // Left in place; the next write replaces it.
+    }
+    return emptyFile();
+  }
+}
+
+/**
+ * Single-process store kept in memory and written to one JSON file after every change.
+ * Writes go to a temp file first and are renamed over the old one, so a crash mid-write
+ * leaves the previous save intact.
+ */
+export function createJsonFileStore(params: { path?: string } = {}): SaveStore {
+  const path = params.path ?? process.env.CHESS_SAVE_PATH ?? DEFAULT_SAVE_PATH;
+  const data = readSaveFile(path);
+
+  let writing: Promise<void> = Promise.resolve();
+  let dirty = false;
+
+  const persist = () => {
+    // Changes made while a write is in flight are picked up by the next one.
+    if (dirty) return writing;
+    dirty = true;
+    writing = writing.then(async () => {
+      dirty = false;
+      try {
+        mkdirSync(dirname(path), { recursive: true });
+        const tmp = `${path}.tmp`;
+        await writeFile(tmp, JSON.stringify(data));
+        await rename(tmp, path);
+      } catch (err) {
+        console.warn(`[save] could not write ${path}`, err);
+      }
+    });
+    return writing;
+  };
+
+  return {
+    async getProfile(playerId) {
+      const profile = data.profiles[playerId];
+      return profile ? structuredClone(profile) : undefined;
+    },
+
+    async putProfile(profile) {
+      data.profiles[profile.playerId] = structuredClone(profile);
+      await persist();
+    },
+
+    async appendGame(game) {
+      data.games.push(structuredClone(game));
+      if (data.games.length > MAX_ARCHIVED_GAMES) data.games.splice(0, data.games.length - MAX_ARCHIVED_GAMES);
+      await persist();
+    },
+
+    async listGames(query = {}) {
+      const { playerId, limit = 20 } = query;
+      const found: ArchivedGame[] = [];
+      for (let i = data.games.length - 1; i >= 0 && found.length < limit; i--) {
+        const game = data.games[i];
+        if (playerId && game.white.playerId !== playerId && game.black.playerId !== playerId) continue;
+        found.push(structuredClone(game));
+      }
+      return found;
+    },
+
+    flush: () => writing,
+  };
+}
@@ -0,0 +1,14 @@
+export const INITIAL_RATING = 1200;
+
+/** Rating swing per game. A single constant keeps ratings easy to reason about at this scale. */
+export const ELO_K = 32;
+
+/** Expected score (0..1) of a player rated `rating` against `opponent`. */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+/** New rating after scoring `score` (1 win, 0.5 draw, 0 loss) against `opponent`. */
+export function updateElo(rating: number, opponent: number, score: number): number {
+  return Math.round(rating + ELO_K * (score - expectedScore(rating, opponent)));
+}
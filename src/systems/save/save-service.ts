@@ -0,0 +1,87 @@
+import { INITIAL_RATING, updateElo } from "./ratings";
+import type { ArchivedGame, PlayerProfile, PlayerRef, RecordCounts, SaveStore } from "./types";
+
+export interface SaveService {
+  /** The stored profile, or a fresh one (not yet saved) for a new player. */
+  profile: (playerId: string, name?: string) => Promise<PlayerProfile>;
+  /** Archive a finished game and update the profiles of the players in it. Returns those profiles. */
+  recordGame: (game: ArchivedGame) => Promise<PlayerProfile[]>;
+  recentGames: (playerId: string, limit?: number) => Promise<ArchivedGame[]>;
+  flush: () => Promise<void>;
+}
+
+export function newProfile(playerId: string, name?: string, now = Date.now()): PlayerProfile {
+  return {
+    playerId,
+    name,
+    rating: INITIAL_RATING,
+    ratedGames: 0,
+    vsPlayers: { wins: 0, losses: 0, draws: 0 },
+    vsComputer: {},
+    updatedAt: now,
+  };
+}
+
+function tally(counts: RecordCounts, score: number) {
+  if (score === 1) counts.wins++;
+  else if (score === 0) counts.losses++;
+  else counts.draws++;
+}
+
+/** White's score: 1, 0.5 or 0. */
+function whiteScore(game: ArchivedGame): number {
+  if (game.result === "1-0") return 1;
+  if (game.result === "0-1") return 0;
+  return 0.5;
+}
+
+export function createSaveService(params: { store: SaveStore; now?: () => number }): SaveService {
+  const { store } = params;
+  const now = params.now ?? (() => Date.now());
+
+  const profile = async (playerId: string, name?: string) => {
+    const found = await store.getProfile(playerId);
+    return found ?? newProfile(playerId, name, now());
+  };
+
+  const recordGame = async (game: ArchivedGame): Promise<PlayerProfile[]> => {
+    await store.appendGame(game);
+
+    const sides: { me: PlayerRef; them: PlayerRef; score: number }[] = [
+      { me: game.white, them: game.black, score: whiteScore(game) },
+      { me: game.black, them: game.white, score: 1 - whiteScore(game) },
+    ];
+
+    // Read both profiles before changing either, so each rating update uses the pre-game ratings.
+    const before = await Promise.all(sides.map((s) => (s.me.playerId ? profile(s.me.playerId, s.me.name) : undefined)));
+
+    const updated: PlayerProfile[] = [];
+    sides.forEach(({ me, them, score }, i) => {
+      const mine = before[i];
+      if (!mine) return;
+      const next: PlayerProfile = structuredClone(mine);
+      next.name = me.name ?? next.name;
+      next.updatedAt = now();
+
+      const theirs = before[1 - i];
+      if (theirs) {
+        // Ratings only move in games between two players.
+        tally(next.vsPlayers, score);
+        next.rating = updateElo(mine.rating, theirs.rating, score);
+        next.ratedGames++;
+      } else if (them.level !== undefined) {
+        const key = String(them.level);
+        next.vsComputer[key] ??= { wins: 0, losses: 0, draws: 0 };
+        tally(next.vsComputer[key], score);
+      }
+      updated.push(next);
+    });
+
+    await Promise.all(updated.map((p) => store.putProfile(p)));
+    return updated;
+  };
+
+  const recentGames = (playerId: string, limit = 10) => store.listGames({ playerId, limit });
+
+  return { profile, recordGame, recentGames, flush: () => store.flush() };
+}
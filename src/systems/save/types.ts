@@ -0,0 +1,55 @@
+/** Player ids are HYTOPIA player ids; the computer has none. */
+export type PlayerRef = {
+  playerId?: string;
+  name?: string;
+  level?: number; // computer strength, when the computer played this side
+};
+
+export type GameResult = "1-0" | "0-1" | "1/2-1/2";
+
+/** One finished game as stored in the archive. */
+export interface ArchivedGame {
+  id: string;
+  roomId: string;
+  mode: string;
+  white: PlayerRef;
+  black: PlayerRef;
+  result: GameResult;
+  reason: string;
+  pgn: string;
+  startedAt?: number;
+  endedAt: number;
+}
+
+export interface RecordCounts {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface PlayerProfile {
+  playerId: string;
+  name?: string;
+  /** Elo rating from games against other players. */
+  rating: number;
+  ratedGames: number;
+  /** Record against other players. */
+  vsPlayers: RecordCounts;
+  /** Record against the computer, per strength level. */
+  vsComputer: Record<string, RecordCounts>;
+  updatedAt: number;
+}
+
+/**
+ * Where profiles and the game archive live. Adapters may be local (JSON file) or remote;
+ * every call is async so either fits.
+ */
+export interface SaveStore {
+  getProfile: (playerId: string) => Promise<PlayerProfile | undefined>;
+  putProfile: (profile: PlayerProfile) => Promise<void>;
+  appendGame: (game: ArchivedGame) => Promise<void>;
+  /** Newest first. */
+  listGames: (query?: { playerId?: string; limit?: number }) => Promise<ArchivedGame[]>;
+  /** Wait for pending writes. */
+  flush: () => Promise<void>;
+}
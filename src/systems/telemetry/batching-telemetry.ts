@@ -0,0 +1,85 @@
+import type { TelemetryClient, TelemetryRecord } from "./types";
+
+export const DEFAULT_BATCH_SIZE = 100;
+export const DEFAULT_FLUSH_INTERVAL_MS = 5_000;
+
+/** Records held while a sink is down; the oldest are dropped beyond this. */
+export const MAX_QUEUED_RECORDS = 10_000;
+
+export type BatchOptions = {
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueued?: number;
+};
+
+/**
+ * A client that buffers records and hands them to `send` in batches: when a batch is full,
+ * when `flushIntervalMs` has passed since the first buffered record, or on `flush()`.
+ * Only one batch is in flight at a time. It counts toward `maxQueued`, so when `send` stalls
+ * the oldest buffered records are dropped rather than piling up. `send` handles its own
+ * retries; a batch it throws on is dropped with a warning.
+ */
+export function createBatchingTelemetry(params: {
+  label: string;
+  send: (batch: TelemetryRecord[]) => Promise<void>;
+} & BatchOptions): TelemetryClient & { flush: () => Promise<void> } {
+  const batchSize = params.batchSize ?? DEFAULT_BATCH_SIZE;
+  const flushIntervalMs = params.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxQueued = params.maxQueued ?? MAX_QUEUED_RECORDS;
+
+  const queue: TelemetryRecord[] = [];
+  let inFlight = 0; // records in the batch being sent
+  let draining: Promise<void> | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let dropped = 0;
+
+  const drain = async () => {
+    while (queue.length) {
+      const batch = queue.splice(0, batchSize);
+      inFlight = batch.length;
+      try {
+        await params.send(batch);
+      } catch (err) {
+        console.warn(`[telemetry:${params.label}] dropping ${batch.length} events`, err);
+      }
+      inFlight = 0;
+    }
+    if (dropped) {
+      console.warn(`[telemetry:${params.label}] dropped ${dropped} events while the sink was behind`);
+      dropped = 0;
+    }
+    // Cleared in the same tick the queue was seen empty, so a later push starts a new drain.
+    draining = undefined;
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    if (!draining && queue.length) draining = drain();
+    return draining ?? Promise.resolve();
+  };
+
+  const push = (record: TelemetryRecord) => {
+    queue.push(record);
+    const over = queue.length + inFlight - maxQueued;
+    if (over > 0) dropped += queue.splice(0, over).length;
+    if (queue.length >= batchSize) {
+      void flush();
+      return;
+    }
+    if (!timer) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+      // Buffered telemetry should not keep the process alive; shutdown flushes it instead.
+      timer.unref?.();
+    }
+  };
+  return {
+    track(event, payload, meta) {
+      push({ event, payload, meta });
+    },
+    identify(playerId, traits) {
+      push({ event: "identify", payload: traits ?? {}, meta: { timestamp: Date.now(), playerId } });
+    },
+    flush,
+  };
+}
@@ -0,0 +1,29 @@
+import type { TelemetryClient } from "./types";
+
+/**
+ * Send every event to several sinks. A sink that throws is skipped with a warning so the
+ * others still get the event; `flush` waits for all of them.
+ */
+export function createFanoutTelemetry(clients: TelemetryClient[]): TelemetryClient & { flush: () => Promise<void> } {
+  const each = (label: string, fn: (client: TelemetryClient) => void) => {
+    for (const client of clients) {
+      try {
+        fn(client);
+      } catch (err) {
+        console.warn(`[telemetry:fanout] ${label} failed on a sink`, err);
+      }
+    }
+  };
+
+  return {
+    track(event, payload, meta) {
+      each(event, (client) => client.track(event, payload, meta));
+    },
+    identify(playerId, traits) {
+      each("identify", (client) => client.identify?.(playerId, traits));
+    },
+    async flush() {
+      await Promise.allSettled(clients.map(async (client) => client.flush?.()));
+    },
+  };
+}
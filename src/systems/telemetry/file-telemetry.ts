@@ -0,0 +1,55 @@
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import { createBatchingTelemetry, type BatchOptions } from "./batching-telemetry";
+import type { TelemetryClient } from "./types";
+
+export const DEFAULT_TELEMETRY_PATH = "data/telemetry.ndjson";
+
+/** The live file is rotated once it would grow past this. */
+export const DEFAULT_TELEMETRY_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Rotated files kept beside the live one (`.1` is the newest); older ones are deleted. */
+export const DEFAULT_TELEMETRY_MAX_FILES = 5;
+
+async function sizeOf(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Appends events as NDJSON (one `{ event, payload, meta }` object per line) to a local file,
+ * in batches. When a batch would take the file past `maxBytes`, it is renamed to `<path>.1`
+ * (shifting older ones up to `<path>.<maxFiles>`) and a new file is started.
+ */
+export function createFileTelemetry(
+  params: { path?: string; maxBytes?: number; maxFiles?: number } & BatchOptions = {}
+): TelemetryClient & { flush: () => Promise<void> } {
+  const path = params.path ?? process.env.CHESS_TELEMETRY_PATH ?? DEFAULT_TELEMETRY_PATH;
+  const maxBytes = params.maxBytes ?? DEFAULT_TELEMETRY_MAX_BYTES;
+  const maxFiles = params.maxFiles ?? DEFAULT_TELEMETRY_MAX_FILES;
+
+  const rotate = async () => {
+    await rm(`${path}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (existsSync(`${path}.${i}`)) await rename(`${path}.${i}`, `${path}.${i + 1}`);
+    }
+    await rename(path, `${path}.1`);
+  };
+
+  return createBatchingTelemetry({
+    ...params,
+    label: "file",
+    send: async (batch) => {
+      const text = batch.map((record) => JSON.stringify(record)).join("\n") + "\n";
+      await mkdir(dirname(path), { recursive: true });
+      const size = await sizeOf(path);
+      if (size > 0 && size + Buffer.byteLength(text) > maxBytes) await rotate();
+      await appendFile(path, text);
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { createBatchingTelemetry, type BatchOptions } from "./batching-telemetry";
+import type { TelemetryClient } from "./types";
+
+/** Attempts per batch, and the exponential backoff between them. */
+export const DEFAULT_HTTP_RETRY = { attempts: 4, baseDelayMs: 500, maxDelayMs: 8_000 };
+
+/** A request that has not answered within this is treated as failed (and retried). */
+export const HTTP_TELEMETRY_TIMEOUT_MS = 10_000;
+
+export type HttpRetry = { attempts: number; baseDelayMs: number; maxDelayMs: number };
+
+/** Server errors, rate limiting and timeouts are worth another try; other client errors are not. */
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+/** Delay before retry number `attempt` (0-based): doubling from `baseDelayMs`, capped, with jitter. */
+export function retryDelayMs(retry: HttpRetry, attempt: number, random = Math.random): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling * (0.5 + random() / 2));
+}
+
+/**
+ * POSTs batches as `{ "events": TelemetryRecord[] }` JSON to `url`. Network errors, timeouts and
+ * retryable statuses are retried with backoff; a batch that still fails is dropped with a warning.
+ * `fetch`, `sleep` and `random` can be swapped to test against a local stub server.
+ */
+export function createHttpTelemetry(
+  params: {
+    url: string;
+    headers?: Record<string, string>;
+    retry?: Partial<HttpRetry>;
+    timeoutMs?: number;
+    fetch?: typeof fetch;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+  } & BatchOptions
+): TelemetryClient & { flush: () => Promise<void> } {
+  const retry: HttpRetry = { ...DEFAULT_HTTP_RETRY, ...params.retry };
+  const timeoutMs = params.timeoutMs ?? HTTP_TELEMETRY_TIMEOUT_MS;
+  const fetchFn = params.fetch ?? fetch;
+  const sleep = params.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  return createBatchingTelemetry({
+    ...params,
+    label: "http",
+    send: async (batch) => {
+      const body = JSON.stringify({ events: batch });
+      let failure = "";
+      for (let attempt = 0; attempt < retry.attempts; attempt++) {
+        if (attempt > 0) await sleep(retryDelayMs(retry, attempt - 1, params.random));
+        try {
+          const res = await fetchFn(params.url, {
+            method: "POST",
+            headers: { "content-type": "application/json", ...params.headers },
+            body,
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+          if (res.ok) return;
+          failure = `HTTP ${res.status}`;
+          if (!isRetryable(res.status)) break;
+        } catch (err) {
+          failure = err instanceof Error ? err.message : String(err);
+        }
+      }
+      throw new Error(`${params.url}: ${failure}`);
+    },
+  });
+}
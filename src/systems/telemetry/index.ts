@@ -1,3 +1,8 @@
 export * from "./types";
 export * from "./console-telemetry";
 export * from "./telemetry-hooks";
+export * from "./batching-telemetry";
+export * from "./file-telemetry";
+export * from "./http-telemetry";
+export * from "./fanout-telemetry";
+export * from "./telemetry-filters";
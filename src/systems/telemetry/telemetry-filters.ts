@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import type { TelemetryClient, TelemetryEventName } from "./types";
+
+/** Payload fields holding player ids; chess events name the players by seat. */
+export const PLAYER_ID_FIELDS = ["playerId", "white", "black"];
+
+/** Ids that are not people and stay readable (computer seats). */
+export const UNSCRUBBED_PLAYER_IDS = ["AI"];
+
+let generatedSalt: string | undefined;
+
+/** Random salt shared by every scrubber in this process, made (and warned about) on first use. */
+function processSalt(): string {
+  if (!generatedSalt) {
+    generatedSalt = randomBytes(16).toString("hex");
+    console.warn(
+      "[telemetry] CHESS_TELEMETRY_SALT is not set; player ids are hashed with a per-process salt and will not match across restarts"
+    );
+  }
+  return generatedSalt;
+}
+
+/**
+ * Keep a share of each event: `rates` maps event names to 0..1, anything unlisted uses
+ * `defaultRate` (1 = keep everything). `identify` and `flush` pass straight through.
+ */
+export function withSampling(
+  client: TelemetryClient,
+  params: { rates: Partial<Record<TelemetryEventName, number>>; defaultRate?: number; random?: () => number }
+): TelemetryClient {
+  const random = params.random ?? Math.random;
+  const defaultRate = params.defaultRate ?? 1;
+  return {
+    track(event, payload, meta) {
+      const rate = params.rates[event] ?? defaultRate;
+      if (rate >= 1 || random() < rate) client.track(event, payload, meta);
+    },
+    identify: client.identify && ((playerId, traits) => client.identify?.(playerId, traits)),
+    flush: client.flush && (() => client.flush?.()),
+  };
+}
+
+/**
+ * Replace player ids with a salted hash before events leave the process, in `meta.playerId`,
+ * the top-level payload fields in `fields` and `identify`. The same player always hashes to the
+ * same value for a given salt, so per-player counts still work. Without `salt` or
+ * `CHESS_TELEMETRY_SALT` a random salt is made per process: ids stay private but do not match
+ * across restarts.
+ */
+export function withScrubbedPlayerIds(
+  client: TelemetryClient,
+  params: { salt?: string; fields?: string[] } = {}
+): TelemetryClient {
+  const salt = params.salt || process.env.CHESS_TELEMETRY_SALT || processSalt();
+  const fields = params.fields ?? PLAYER_ID_FIELDS;
+
+  const scrub = (playerId: string) =>
+    UNSCRUBBED_PLAYER_IDS.includes(playerId)
+      ? playerId
+      : `p_${createHash("sha256").update(salt).update(playerId).digest("hex").slice(0, 16)}`;
+
+  const scrubPayload = (payload: unknown): unknown => {
+    if (!payload || typeof payload !== "object" || Array.isArray(payload)) return payload;
+    const copy: Record<string, unknown> = { ...(payload as Record<string, unknown>) };
+    for (const field of fields) {
+      if (typeof copy[field] === "string") copy[field] = scrub(copy[field] as string);
+    }
+    return copy;
+  };
+
+  return {
+    track(event, payload, meta) {
+      const safeMeta = meta?.playerId ? { ...meta, playerId: scrub(meta.playerId) } : meta;
+      client.track(event, scrubPayload(payload), safeMeta);
+    },
+    identify: client.identify && ((playerId, traits) => client.identify?.(scrub(playerId), traits)),
+    flush: client.flush && (() => client.flush?.()),
+  };
+}
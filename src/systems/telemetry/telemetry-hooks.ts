@@ -7,20 +7,30 @@ import { nowMeta } from "./console-telemetry";
 
 type Unsub = () => void;
 
+/** Longest a shutdown waits for the client to flush. */
+export const TELEMETRY_SHUTDOWN_FLUSH_MS = 3_000;
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
 function shouldLogTelemetry(config: GameConfig): boolean {
   // Keep simple: only track when telemetry flag enabled.
   return isEnabled(config, "telemetry.enabled");
 }
 
+/**
+ * Subscribe `client` to game events. Unless `flushOnShutdown` is false, the client is also
+ * flushed when the process stops (SIGINT/SIGTERM or an empty event loop).
+ */
 export function bindTelemetry(params: {
   config: GameConfig;
   client: TelemetryClient;
   sessionId?: string;
-}): { unbind: () => void } {
+  flushOnShutdown?: boolean;
+}): { unbind: () => void; flush: () => Promise<void> } {
   const { config, client, sessionId } = params;
 
   if (!shouldLogTelemetry(config)) {
-    return { unbind: () => {} };
+    return { unbind: () => {}, flush: async () => {} };
   }
 
   const unsubs: Unsub[] = [];
@@ -62,9 +72,91 @@ export function bindTelemetry(params: {
     })
   );
 
+  // Chess: rooms, seats and games (session length, abandon rates, AI win rates)
+  unsubs.push(
+    gameEvents.onGame("chess.room.created", (p) => {
+      client.track("chess.room.created", p, nowMeta({ sessionId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.seat.assigned", (p) => {
+      client.track("chess.seat.assigned", p, nowMeta({ sessionId, playerId: p.playerId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.game.started", (p) => {
+      client.track("chess.game.started", p, nowMeta({ sessionId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.move.made", (p) => {
+      client.track("chess.move.made", p, nowMeta({ sessionId, playerId: p.playerId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.check", (p) => {
+      client.track("chess.check", p, nowMeta({ sessionId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.game.ended", (p) => {
+      client.track("chess.game.ended", p, nowMeta({ sessionId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.rematch", (p) => {
+      client.track("chess.rematch", p, nowMeta({ sessionId, playerId: p.playerId }));
+    })
+  );
+
+  unsubs.push(
+    gameEvents.onGame("chess.player.disconnected", (p) => {
+      client.track("chess.player.disconnected", p, nowMeta({ sessionId, playerId: p.playerId }));
+    })
+  );
+
+  const flush = async () => {
+    const deadline = new Promise<void>((resolve) => setTimeout(resolve, TELEMETRY_SHUTDOWN_FLUSH_MS).unref());
+    try {
+      await Promise.race([Promise.resolve(client.flush?.()), deadline]);
+    } catch (err) {
+      console.warn("[telemetry] flush failed", err);
+    }
+  };
+
+  if (params.flushOnShutdown !== false) {
+    // Raise the signal again once flushed so the process still stops, unless something else handles it.
+    const onSignal = (signal: NodeJS.Signals) => {
+      void flush().finally(() => {
+        if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+      });
+    };
+    // beforeExit fires again once the flush settles; flush only the first time.
+    let flushedAtExit = false;
+    const onBeforeExit = () => {
+      if (flushedAtExit) return;
+      flushedAtExit = true;
+      void flush();
+    };
+
+    for (const signal of SHUTDOWN_SIGNALS) process.once(signal, onSignal);
+    process.on("beforeExit", onBeforeExit);
+    unsubs.push(() => {
+      for (const signal of SHUTDOWN_SIGNALS) process.off(signal, onSignal);
+      process.off("beforeExit", onBeforeExit);
+    });
+  }
+
   return {
     unbind: () => {
       for (const u of unsubs) u();
     },
+    flush,
   };
 }
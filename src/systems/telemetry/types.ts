@@ -9,5 +9,13 @@ export interface TelemetryMeta {
 export interface TelemetryClient {
   track: (event: TelemetryEventName, payload?: unknown, meta?: TelemetryMeta) => void;
   identify?: (playerId: string, traits?: Record<string, unknown>) => void;
-  flush?: () => void;
+  /** Send anything buffered; sinks that write asynchronously resolve once it is out. */
+  flush?: () => void | Promise<void>;
+}
+
+/** One tracked event as buffered and written by the batching sinks (one NDJSON line each). */
+export interface TelemetryRecord {
+  event: TelemetryEventName;
+  payload?: unknown;
+  meta?: TelemetryMeta;
 }
@@ -0,0 +1,121 @@
+/**
+ * Self-play ladder for the computer's strength levels.
+ *
+ * Plays each level against the next one up from a set of short openings (both colors each),
+ * turns the match scores into rating gaps and chains them from the lowest level's nominal
+ * rating. Run it after touching `AI_LEVELS`: every gap should be positive.
+ *
+ *   npx tsx tools/ai-ladder.ts [--levels=1-10] [--rounds=1] [--max-plies=160]
+ *
+ * Exits non-zero if the measured ladder is not monotonic.
+ */
+import { Chess } from "chess.js";
+
+import { chooseAiMove } from "../src/gameplay/chess/ai";
+import { parseFen, search } from "../src/gameplay/chess/engine";
+import { AI_LEVELS, MAX_DIFFICULTY, MIN_DIFFICULTY, isDifficulty } from "../src/gameplay/chess/levels";
+import type { Difficulty, PlayerColor } from "../src/gameplay/chess/types";
+
+// Balanced, common starts so games between deterministic levels don't all repeat.
+const OPENINGS = [
+  "e4 e5 Nf3 Nc6",
+  "e4 c5 Nf3 d6",
+  "d4 d5 c4 e6",
+  "d4 Nf6 c4 g6",
+  "c4 e5 Nc3 Nf6",
+  "e4 e6 d4 d5",
+];
+
+/** Games that reach the ply cap are scored by a quick evaluation; within this margin they are draws. */
+const ADJUDICATE_MARGIN_CP = 200;
+
+type Options = { from: Difficulty; to: Difficulty; rounds: number; maxPlies: number };
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { from: MIN_DIFFICULTY, to: MAX_DIFFICULTY, rounds: 1, maxPlies: 160 };
+  for (const arg of argv) {
+    const [key, value = ""] = arg.replace(/^--/, "").split("=");
+    if (key === "levels") {
+      const [a, b] = value.split("-").map(Number);
+      if (!isDifficulty(a) || !isDifficulty(b) || a >= b) throw new Error(`Bad --levels range: ${value}`);
+      opts.from = a;
+      opts.to = b;
+    } else if (key === "rounds") {
+      opts.rounds = Math.max(1, Number(value) || 1);
+    } else if (key === "max-plies") {
+      opts.maxPlies = Math.max(20, Number(value) || opts.maxPlies);
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return opts;
+}
+
+/** Score for White: 1, 0.5 or 0. */
+function playGame(white: Difficulty, black: Difficulty, opening: string, maxPlies: number): number {
+  const chess = new Chess();
+  for (const san of opening.split(" ")) chess.move(san);
+
+  while (!chess.isGameOver() && chess.history().length < maxPlies) {
+    const turn = chess.turn() as PlayerColor;
+    const uci = chooseAiMove(chess.fen(), turn, turn === "w" ? white : black);
+    if (!uci) break;
+    chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+  }
+
+  if (chess.isCheckmate()) return chess.turn() === "w" ? 0 : 1;
+  if (chess.isGameOver()) return 0.5;
+
+  const { score } = search(parseFen(chess.fen()), { maxDepth: 4, timeMs: 500 });
+  const forWhite = chess.turn() === "w" ? score : -score;
+  if (forWhite > ADJUDICATE_MARGIN_CP) return 1;
+  if (forWhite < -ADJUDICATE_MARGIN_CP) return 0;
+  return 0.5;
+}
+
+/** Rating difference implied by a score fraction, clamped so a shutout stays finite. */
+function ratingGap(score: number, games: number): number {
+  const p = Math.min(1 - 0.5 / games, Math.max(0.5 / games, score / games));
+  return Math.round(400 * Math.log10(p / (1 - p)));
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const ratings = new Map<Difficulty, number>([[opts.from, AI_LEVELS[opts.from].rating]]);
+  let monotonic = true;
+
+  console.log(`level  nominal  measured  vs-previous`);
+  console.log(`${String(opts.from).padStart(5)}  ${String(AI_LEVELS[opts.from].rating).padStart(7)}  ${String(ratings.get(opts.from)).padStart(8)}`);
+
+  for (let level = opts.from; level < opts.to; level++) {
+    const lower = level as Difficulty;
+    const upper = (level + 1) as Difficulty;
+    let upperScore = 0;
+    let games = 0;
+
+    for (let round = 0; round < opts.rounds; round++) {
+      for (const opening of OPENINGS) {
+        upperScore += playGame(upper, lower, opening, opts.maxPlies);
+        upperScore += 1 - playGame(lower, upper, opening, opts.maxPlies);
+        games += 2;
+      }
+    }
+
+    const gap = ratingGap(upperScore, games);
+    const rating = ratings.get(lower)! + gap;
+    ratings.set(upper, rating);
+    if (gap <= 0) monotonic = false;
+
+    console.log(
+      `${String(upper).padStart(5)}  ${String(AI_LEVELS[upper].rating).padStart(7)}  ${String(rating).padStart(8)}  ` +
+        `${upperScore}/${games} (${gap >= 0 ? "+" : ""}${gap})`
+    );
+  }
+
+  if (!monotonic) {
+    console.error("Ladder is not monotonic: a level scored at or below the one beneath it.");
+    process.exitCode = 1;
+  }
+}
+
+main();
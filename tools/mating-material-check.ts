@@ -0,0 +1,47 @@
+/**
+ * Flag-fall scoring check: running out of time only loses against a side that could still mate.
+ *
+ *   npx tsx tools/mating-material-check.ts
+ *
+ * Each case flags White in the given position (White to move) and compares the result.
+ * Exits non-zero if any case is scored wrong.
+ */
+import { Chess } from "chess.js";
+
+import { assignSeat, createRoom, maybeFinalize, startGame } from "../src/gameplay/chess/game";
+import type { PlayerColor } from "../src/gameplay/chess/types";
+
+type Case = { name: string; fen: string; winner?: PlayerColor; reason: string };
+
+const CASES: Case[] = [
+  { name: "K+B+B (same colour) vs K", fen: "8/8/8/8/8/2k5/8/K1b1b3 w - - 0 1", reason: "timeout vs insufficient material" },
+  { name: "K+B+B (both colours) vs K", fen: "8/8/8/8/8/2k5/8/K1bb4 w - - 0 1", winner: "b", reason: "timeout" },
+  { name: "K+N+N vs K", fen: "8/8/8/8/8/2k5/8/K1n1n3 w - - 0 1", winner: "b", reason: "timeout" },
+  { name: "K+B vs K", fen: "8/8/8/8/8/2k5/8/K1b5 w - - 0 1", reason: "timeout vs insufficient material" },
+  { name: "K+N vs K+P", fen: "8/8/8/8/8/2k5/P7/K1n5 w - - 0 1", winner: "b", reason: "timeout" },
+  { name: "K+B+B (same colour) vs K+N", fen: "8/8/8/8/8/2k5/N7/K1b1b3 w - - 0 1", winner: "b", reason: "timeout" },
+];
+
+function flagWhite(fen: string) {
+  const room = createRoom("check");
+  room.selection.timeControl = "bullet";
+  assignSeat(room, "white");
+  const now = Date.now();
+  startGame(room, now);
+  // Swap in the position after the clock has started, so chess.js' own game-over rules don't end it first.
+  room.chess = new Chess(fen);
+  maybeFinalize(room, now + 60 * 60_000);
+  return { winner: room.winner, reason: room.endReason };
+}
+
+let failures = 0;
+for (const c of CASES) {
+  const got = flagWhite(c.fen);
+  const ok = got.winner === c.winner && got.reason === c.reason;
+  if (!ok) failures++;
+  console.log(`${ok ? "ok  " : "FAIL"} ${c.name}: ${got.winner ?? "draw"} by ${got.reason}`);
+}
+if (failures) {
+  console.error(`${failures} case(s) scored wrong`);
+  process.exitCode = 1;
+}
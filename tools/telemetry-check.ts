@@ -0,0 +1,98 @@
+/**
+ * Telemetry check: batched records arrive in order, a stalled sink cannot make the buffer grow
+ * past `maxQueued` (the oldest records are dropped instead), and player ids are never hashed
+ * without a salt.
+ *
+ *   npx tsx tools/telemetry-check.ts
+ *
+ * Exits non-zero if any check fails.
+ */
+import { createHash } from "node:crypto";
+
+import { createBatchingTelemetry } from "../src/systems/telemetry/batching-telemetry";
+import { withScrubbedPlayerIds } from "../src/systems/telemetry/telemetry-filters";
+import type { TelemetryClient, TelemetryRecord } from "../src/systems/telemetry/types";
+
+let failures = 0;
+function expect(name: string, ok: boolean, detail: string) {
+  if (!ok) failures++;
+  console.log(`${ok ? "ok  " : "FAIL"} ${name}: ${detail}`);
+}
+
+const index = (record: TelemetryRecord) => (record.payload as { i: number }).i;
+
+async function deliversInOrder() {
+  const sent: number[] = [];
+  const client = createBatchingTelemetry({
+    label: "check",
+    batchSize: 10,
+    send: async (batch) => {
+      sent.push(...batch.map(index));
+    },
+  });
+  for (let i = 0; i < 25; i++) client.track("e", { i });
+  await client.flush();
+  const inOrder = sent.length === 25 && sent.every((n, i) => n === i);
+  expect("delivers everything in order", inOrder, `${sent.length} of 25 sent`);
+}
+
+async function stalledSinkIsCapped() {
+  const sent: number[] = [];
+  let release = () => {};
+  const stalled = new Promise<void>((resolve) => (release = resolve));
+  let calls = 0;
+  const client = createBatchingTelemetry({
+    label: "check",
+    batchSize: 10,
+    maxQueued: 50,
+    send: async (batch) => {
+      calls++;
+      await stalled;
+      sent.push(...batch.map(index));
+    },
+  });
+
+  for (let i = 0; i < 1000; i++) client.track("e", { i });
+  expect("one batch in flight while stalled", calls === 1, `${calls} send call(s)`);
+
+  release();
+  await client.flush();
+  const last = sent[sent.length - 1];
+  expect("stalled sink keeps at most maxQueued", sent.length <= 50, `${sent.length} of 1000 delivered`);
+  expect("newest records survive", last === 999, `last delivered #${last}`);
+}
+
+function scrubbedId(params: { salt?: string }): string {
+  let seen = "";
+  const sink: TelemetryClient = { track: (_event, _payload, meta) => (seen = meta?.playerId ?? "") };
+  withScrubbedPlayerIds(sink, params).track("e", {}, { playerId: "player-1", timestamp: 0 });
+  return seen;
+}
+
+function scrubsWithSalt() {
+  const salted = scrubbedId({ salt: "s" });
+  expect("same salt, same hash", salted === scrubbedId({ salt: "s" }), salted);
+  const unsalted = scrubbedId({});
+  const bare = `p_${createHash("sha256").update("player-1").digest("hex").slice(0, 16)}`;
+  const fresh = unsalted === scrubbedId({}) && unsalted !== bare;
+  expect("no salt gets a random one per process", fresh, `${unsalted}, unsalted hash ${bare}`);
+}
+
+async function main() {
+  // The cap warning is expected; keep the output to the results.
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    await deliversInOrder();
+    await stalledSinkIsCapped();
+    scrubsWithSalt();
+  } finally {
+    console.warn = warn;
+  }
+  if (failures) {
+    console.error(`${failures} check(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+void main();
@@ -0,0 +1,57 @@
+/**
+ * UI action check: client messages naming prototype keys as piece sets are refused, and a route
+ * handler that throws answers with a rejection instead of escaping the inbound handler.
+ *
+ *   npx tsx tools/ui-action-check.ts
+ *
+ * Exits non-zero if any check fails.
+ */
+import { createActionRouter, type RoutedTable } from "../src/gameplay/chess/action-router";
+import { createRoom } from "../src/gameplay/chess/game";
+import { parseUiMessage } from "../src/gameplay/ui/protocol";
+
+let failures = 0;
+function expect(name: string, ok: boolean, detail: string) {
+  if (!ok) failures++;
+  console.log(`${ok ? "ok  " : "FAIL"} ${name}: ${detail}`);
+}
+
+function refusesPrototypePieceSets() {
+  for (const pieceSet of ["toString", "constructor", "__proto__", "hasOwnProperty"]) {
+    const res = parseUiMessage({ type: "ui.action", action: "lobby.set", payload: { pieceSet } });
+    expect(`lobby.set pieceSet "${pieceSet}"`, !res.ok, res.ok ? "accepted" : res.error.code);
+  }
+}
+
+function throwingHandlerIsRejected() {
+  const router = createActionRouter<undefined, RoutedTable>();
+  router.on("lobby.set", {
+    access: "atTable",
+    handle: () => {
+      throw new Error("boom");
+    },
+  });
+  const table: RoutedTable = { room: createRoom("check"), colors: new Map() };
+  let res: ReturnType<typeof router.dispatch> | undefined;
+  try {
+    res = router.dispatch({ playerId: "p1", player: undefined, table }, { action: "lobby.set", payload: {} });
+  } catch (err) {
+    expect("throwing handler", false, `escaped dispatch: ${String(err)}`);
+    return;
+  }
+  expect("throwing handler", !res.ok && res.reason === "failed", JSON.stringify(res));
+}
+
+// The failing handler's warning is expected; keep the output to the results.
+const warn = console.warn;
+console.warn = () => {};
+try {
+  refusesPrototypePieceSets();
+  throwingHandlerIsRejected();
+} finally {
+  console.warn = warn;
+}
+if (failures) {
+  console.error(`${failures} check(s) failed`);
+  process.exitCode = 1;
+}